@@ -9,6 +9,8 @@ import {
   genTestsCommand,
   analyzeCommand,
   configCommand,
+  cacheCommand,
+  historyCommand,
 } from "./commands";
 
 // Load environment variables
@@ -29,6 +31,8 @@ program.addCommand(branchDocsCommand);
 program.addCommand(genTestsCommand);
 program.addCommand(analyzeCommand);
 program.addCommand(configCommand);
+program.addCommand(cacheCommand);
+program.addCommand(historyCommand);
 
 // Parse command line arguments
 program.parse();
@@ -1,8 +1,12 @@
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
+import { readFileSync } from "fs";
 import { ensureDirSync } from "fs-extra";
-import ora from "ora";
+import { basename } from "path";
+import inquirer from "inquirer";
+import ora, { Ora } from "ora";
 import {
   showBanner,
+  logDiff,
   logInfo,
   logSuccess,
   logWarning,
@@ -10,15 +14,476 @@ import {
   logGray,
 } from "../utils/ui/console";
 import { validateApiKey, getOutputDir } from "../utils/config/config-manager";
+import { disableResponseCache } from "../utils/cache/response-cache";
+import {
+  finishCostLedger,
+  getCostLedger,
+  startCostLedger,
+} from "../utils/usage/cost-ledger";
+import {
+  BudgetExceededError,
+  configureRunBudget,
+  parseBudgetValue,
+} from "../utils/usage/budget";
 import { getGitInfo } from "../utils/git/git-info";
-import { getBranchChanges } from "../utils/git/branch-operations";
+import {
+  getBranchChanges,
+  getCommitChanges,
+  getPatchChanges,
+  getRangeChanges,
+  getReviewCommits,
+  isAncestorCommit,
+} from "../utils/git/branch-operations";
 import { findGitRoot, getRelativePathFromGitRoot } from "../utils/git/git-root";
 import { detectProjectType } from "../utils/project-analyzer";
 import { CodeReviewService } from "../services/code-review";
+import { GitHubReviewService } from "../services/github-review";
+import { GitLabReviewService } from "../services/gitlab-review";
+import { CodeFixService } from "../services/code-fix";
+import { applyPatch, checkPatch } from "../utils/git/patch";
+import {
+  parseReviewFormats,
+  REVIEW_FORMATS,
+  ReviewFormat,
+  writeReviewFormats,
+} from "../utils/report/review-output";
+import {
+  evaluateQualityGate,
+  EXIT_CODES,
+  getExitCode,
+  parseFailOn,
+  parseMaxIssues,
+} from "../utils/review/quality-gate";
+import { BASELINE_FILE, updateBaseline } from "../utils/review/baseline";
+import { ReviewSeverity } from "../utils/review/structured-review";
+import {
+  buildHistoryRecord,
+  getCommitIdentity,
+  saveHistoryRecord,
+} from "../utils/history/review-history";
+import {
+  carryForwardFindings,
+  loadIncrementalState,
+  saveIncrementalState,
+} from "../utils/review/incremental";
+import {
+  CommitReviewEntry,
+  commitVerdict,
+  messageMatch,
+  saveCommitReview,
+} from "../utils/review/commit-review";
+import { parsePersonas, REVIEW_PERSONAS } from "../utils/review/personas";
+import { parseAgreement } from "../utils/review/voting";
+import { BranchChanges } from "../types/cli";
+import { Issue } from "../types";
+
+// Parsed `auto-review` options; see the option definitions below
+interface AutoReviewOptions {
+  output?: string;
+  base: string;
+  repoPath?: string;
+  staged?: boolean;
+  includeLocal?: boolean;
+  autoComment?: boolean;
+  dryRun?: boolean;
+  commits?: number | "all";
+  format: ReviewFormat[];
+  githubPr?: number;
+  gitlabMr?: number;
+  failOn?: ReviewSeverity;
+  maxIssues?: number;
+  updateBaseline?: boolean;
+  fix?: boolean;
+  yes?: boolean;
+  from?: string;
+  to?: string;
+  commit?: string;
+  patch?: string;
+  incremental?: boolean;
+  personas?: string[];
+  votes?: number;
+  agreement?: number;
+  history: boolean;
+  cache: boolean;
+  budget?: number;
+  budgetTokens?: number;
+}
+
+const parseRequestNumber = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(
+      `Invalid pull/merge request number: ${value}`
+    );
+  }
+  return parsed;
+};
+
+const parseVotes = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(`Invalid --votes value: ${value}`);
+  }
+  return parsed;
+};
+
+const parseCommitCount = (value: string): number | "all" => {
+  if (value === "all") return value;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(
+      `Invalid --commits value: ${value} (use a number or all)`
+    );
+  }
+  return parsed;
+};
+
+// "-" reads the patch from stdin, e.g. `git diff | st ar --patch -`
+const readPatchInput = async (source: string): Promise<string> => {
+  if (source !== "-") return readFileSync(source, "utf8");
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+// Returns an error message when change-selection options conflict
+const validateChangeSource = (options: AutoReviewOptions): string | null => {
+  const sources = (
+    ["from", "commit", "commits", "patch", "incremental"] as const
+  ).filter((name) => options[name]);
+  if (sources.length > 1) {
+    return `--${sources.join(", --")} cannot be combined`;
+  }
+  if (options.to && !options.from) {
+    return "--to needs --from";
+  }
+  return null;
+};
+
+/**
+ * Reviews each commit on its own, checking its diff against its message,
+ * and prints one verdict row per commit. Returns false when a commit could
+ * not be reviewed. A message that does not match its change is flagged in
+ * the table but does not fail the commit by itself.
+ */
+const reviewEachCommit = async (
+  repoPath: string,
+  branch: string,
+  options: AutoReviewOptions,
+  outputDir: string,
+  spinner: Ora
+): Promise<{
+  entries: CommitReviewEntry[];
+  completed: boolean;
+  budgetExceeded: boolean;
+}> => {
+  // Only called with --commits
+  const commits = await getReviewCommits(
+    repoPath,
+    options.base,
+    options.commits!
+  );
+  const entries: CommitReviewEntry[] = [];
+  if (commits.length === 0) {
+    return { entries, completed: true, budgetExceeded: false };
+  }
+
+  logInfo(`🧾 Reviewing ${commits.length} commits one at a time`);
+  const service = new CodeReviewService();
+  let completed = true;
+  let budgetExceeded = false;
+
+  for (const [index, commit] of commits.entries()) {
+    const label = `${commit.hash.slice(0, 8)} ${commit.subject}`;
+    spinner.start(`[${index + 1}/${commits.length}] Reviewing ${label}`);
+    const startedAt = Date.now();
+    const costBefore = getCostLedger().totals;
+
+    const changes = await getCommitChanges(repoPath, commit.hash);
+    if (!changes) {
+      spinner.fail(`Could not read ${label}`);
+      entries.push({
+        commit,
+        result: null,
+        gatePassed: false,
+        error: "could not read the commit",
+      });
+      completed = false;
+      continue;
+    }
+
+    let result;
+    try {
+      result = await service.performBranchReview(
+        repoPath,
+        changes,
+        undefined,
+        false,
+        {
+          intent: commit.message,
+          personas: options.personas,
+          votes: options.votes,
+          agreement: options.agreement,
+        }
+      );
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        spinner.warn(`Commit reviews stopped: ${error.message}`);
+        commits.slice(index).forEach((skipped) =>
+          entries.push({
+            commit: skipped,
+            result: null,
+            gatePassed: false,
+            error: "run budget exhausted",
+          })
+        );
+        completed = false;
+        budgetExceeded = true;
+        break;
+      }
+      spinner.fail(`Review of ${label} failed`);
+      entries.push({
+        commit,
+        result: null,
+        gatePassed: false,
+        error: String(error),
+      });
+      completed = false;
+      continue;
+    }
+
+    const gate = evaluateQualityGate(result, {
+      failOn: options.failOn,
+      maxIssues: options.maxIssues,
+    });
+    const entry = { commit, result, gatePassed: gate.passed };
+    entries.push(entry);
+    if (result.report?.incomplete) {
+      logWarning(`💸 ${label}: partial review, ${result.report.incomplete}`);
+      completed = false;
+      budgetExceeded = true;
+    }
+    const missingPersonas = result.report?.missingPersonas || [];
+    if (missingPersonas.length > 0) {
+      logWarning(
+        `⚠️  ${label}: no valid result from personas ${missingPersonas.join(
+          ", "
+        )}`
+      );
+      completed = false;
+    }
+    if (commitVerdict(entry) === "PASS") {
+      spinner.succeed(`${label}: PASS`);
+    } else {
+      spinner.fail(`${label}: FAIL`);
+    }
+
+    if (options.history) {
+      const totals = getCostLedger().totals;
+      try {
+        saveHistoryRecord(
+          repoPath,
+          buildHistoryRecord(result, {
+            branch,
+            base: changes.baseBranch,
+            commitSha: commit.hash,
+            author: commit.author,
+            filesReviewed: changes.changedFiles.length,
+            costUSD: totals.costUSD - costBefore.costUSD,
+            tokens:
+              totals.promptTokens +
+              totals.completionTokens -
+              costBefore.promptTokens -
+              costBefore.completionTokens,
+            durationMs: Date.now() - startedAt,
+          })
+        );
+      } catch (historyError) {
+        logWarning(`⚠️  Could not record review history: ${historyError}`);
+      }
+    }
+  }
+
+  logInfo("\n🧾 Commit Verdicts:");
+  logGray(
+    `${"Commit".padEnd(9)} ${"Verdict".padEnd(9)} ${"C/M/m".padEnd(
+      8
+    )} ${"Message".padEnd(8)} Subject`
+  );
+  entries.forEach((entry) => {
+    const verdict = commitVerdict(entry);
+    const counts = entry.result
+      ? `${entry.result.criticalIssues.length}/${entry.result.majorIssues.length}/${entry.result.minorIssues.length}`
+      : "-";
+    const match = messageMatch(entry);
+    const row = `${entry.commit.hash.slice(0, 8).padEnd(9)} ${(verdict ===
+    "PASS"
+      ? "✅ PASS"
+      : verdict === "FAIL"
+      ? "❌ FAIL"
+      : "⚠️  ERROR"
+    ).padEnd(9)} ${counts.padEnd(8)} ${(match === "no"
+      ? "mismatch"
+      : match
+    ).padEnd(8)} ${entry.commit.subject}`;
+    if (verdict === "PASS" && match !== "no") logGray(row);
+    else if (verdict === "PASS") logWarning(row);
+    else logError(row);
+  });
+  logGray(
+    "(critical/major/minor findings; Message: does the message match the change)"
+  );
+
+  const mismatches = entries.filter((entry) => messageMatch(entry) === "no");
+  if (mismatches.length > 0) {
+    logWarning(
+      `\n📝 ${mismatches.length} commit messages do not match their changes:`
+    );
+    mismatches.forEach((entry) =>
+      logGray(
+        `   • ${entry.commit.hash.slice(0, 8)} ${entry.commit.subject}: ${
+          entry.result!.report!.intentCheck!.explanation
+        }`
+      )
+    );
+  }
+  entries
+    .filter((entry) => entry.error)
+    .forEach((entry) =>
+      logWarning(
+        `   • ${entry.commit.hash.slice(0, 8)} not reviewed: ${entry.error}`
+      )
+    );
+
+  logGray(`\nReport: ${saveCommitReview(entries, branch, outputDir)}`);
+  return { entries, completed, budgetExceeded };
+};
+
+/**
+ * Proposes a patch for each critical and major finding and applies the
+ * accepted ones. Patches are generated one at a time and checked against
+ * the current working tree, so each one sees the fixes applied before it.
+ */
+const fixFindings = async (
+  repoPath: string,
+  branchChanges: BranchChanges,
+  issues: Issue[],
+  autoApply: boolean,
+  spinner: Ora
+): Promise<void> => {
+  const fixable = issues.filter(
+    (issue) => issue.severity === "critical" || issue.severity === "warning"
+  );
+  if (fixable.length === 0) {
+    logInfo("\n🩹 No critical or major findings to fix");
+    return;
+  }
+
+  const interactive = !autoApply && !!process.stdin.isTTY;
+  if (!autoApply && !interactive) {
+    logWarning(
+      "⚠️  --fix needs an interactive terminal; use --fix --yes to apply patches unattended"
+    );
+    return;
+  }
+
+  logInfo(`\n🩹 Proposing fixes for ${fixable.length} findings`);
+  const service = new CodeFixService();
+  let applied = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const [index, issue] of fixable.entries()) {
+    const label = `${issue.file}:${issue.line} ${
+      issue.title || issue.category
+    }`;
+    spinner.start(
+      `[${index + 1}/${fixable.length}] Generating fix for ${label}`
+    );
+
+    let fix;
+    try {
+      fix = await service.proposeFix(repoPath, issue, branchChanges);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        spinner.warn(`Fixing stopped: ${error.message}`);
+        skipped += fixable.length - index;
+        break;
+      }
+      spinner.fail(`Could not generate a fix for ${label}`);
+      logGray(`   ${error}`);
+      failed++;
+      continue;
+    }
+
+    if (!fix.patch || !fix.applies) {
+      spinner.fail(`No clean patch for ${label}`);
+      if (fix.error) logGray(`   ${fix.error.split("\n")[0]}`);
+      failed++;
+      continue;
+    }
+    spinner.succeed(`Patch ready for ${label}`);
+
+    if (interactive) {
+      console.log();
+      logDiff(fix.patch);
+      console.log();
+      const { action } = await inquirer.prompt([
+        {
+          type: "list",
+          name: "action",
+          message: "Apply this patch?",
+          choices: [
+            { name: "Apply", value: "apply" },
+            { name: "Skip", value: "skip" },
+            { name: "Stop fixing", value: "stop" },
+          ],
+        },
+      ]);
+      if (action === "stop") {
+        skipped += fixable.length - index;
+        break;
+      }
+      if (action === "skip") {
+        skipped++;
+        continue;
+      }
+    }
+
+    // The tree may have changed while the prompt was open
+    const check = await checkPatch(repoPath, fix.patch);
+    if (!check.applies) {
+      logWarning(`   Patch no longer applies cleanly to ${issue.file}`);
+      failed++;
+      continue;
+    }
+    await applyPatch(repoPath, fix.patch);
+    logSuccess(`   ✅ Applied fix to ${issue.file}`);
+    applied++;
+  }
+
+  console.log(`\n🩹 Fix Results:`);
+  logGray(`Applied: ${applied}`);
+  logGray(`Skipped: ${skipped}`);
+  logGray(`Without a clean patch: ${failed}`);
+  if (applied > 0) {
+    logInfo("💡 Review the changes with git diff before committing");
+  }
+};
 
 export const autoReviewCommand = new Command("auto-review")
   .alias("ar")
   .description("🤖 Smart auto-review for code changes")
+  // Usage errors such as an invalid option value are tool errors, so CI
+  // can tell a typo from a failed review (commander exits with 1 otherwise)
+  .exitOverride((error) => {
+    process.exit(
+      error.exitCode === 0 ? EXIT_CODES.PASS : EXIT_CODES.TOOL_ERROR
+    );
+  })
   .option("-o, --output <dir>", "Output directory")
   .option("-b, --base <branch>", "Base branch to compare against", "main")
   .option(
@@ -28,10 +493,112 @@ export const autoReviewCommand = new Command("auto-review")
   .option("--staged", "Review only staged changes")
   .option("--include-local", "Include uncommitted local changes")
   .option("--auto-comment", "Enable auto-commenting on reviewed code")
-  .option("--commits <number>", "Number of recent commits to review", "1")
-  .action(async (options) => {
+  .option(
+    "--dry-run",
+    "With --auto-comment, print the comments as a diff instead of writing them"
+  )
+  .option(
+    "--commits <n|all>",
+    "Review the last <n> commits, or every commit on the branch, one at a time against their messages",
+    parseCommitCount
+  )
+  .option(
+    "-f, --format <formats>",
+    `Report formats, comma-separated (${REVIEW_FORMATS.join("|")})`,
+    parseReviewFormats,
+    ["markdown"]
+  )
+  .option(
+    "--github-pr <number>",
+    "Post the review to a GitHub pull request with inline comments",
+    parseRequestNumber
+  )
+  .option(
+    "--gitlab-mr <iid>",
+    "Post the review to a GitLab merge request as discussions and set a commit status",
+    parseRequestNumber
+  )
+  .option(
+    "--fail-on <severity>",
+    "Exit with code 1 when any finding is at or above this severity (critical|major|minor)",
+    parseFailOn
+  )
+  .option(
+    "--max-issues <n>",
+    "Exit with code 1 when more than <n> findings are reported",
+    parseMaxIssues
+  )
+  .option(
+    "--update-baseline",
+    `Accept the current findings by adding them to ${BASELINE_FILE}`
+  )
+  .option(
+    "--fix",
+    "Propose a patch for each critical and major finding and apply the accepted ones"
+  )
+  .option("-y, --yes", "With --fix, apply every patch that applies cleanly")
+  .option(
+    "--from <ref>",
+    "Review the changes from <ref> to --to (default HEAD) without checking them out"
+  )
+  .option("--to <ref>", "End of the --from range")
+  .option("--commit <sha>", "Review the changes made by a single commit")
+  .option(
+    "--patch <file>",
+    "Review a git-style patch from a file, or from stdin with -"
+  )
+  .option(
+    "--incremental",
+    "Review only the commits since the last review of this branch and carry its findings forward"
+  )
+  .option(
+    "--personas <names>",
+    `Run focused reviews in parallel and merge them, comma-separated (${Object.keys(
+      REVIEW_PERSONAS
+    ).join("|")})`,
+    parsePersonas
+  )
+  .option(
+    "--votes <n>",
+    "Run <n> independent reviews and keep only the findings enough of them agree on",
+    parseVotes
+  )
+  .option(
+    "--agreement <ratio>",
+    "With --votes, share of reviews that must report a finding (default 0.5 or review.agreement)",
+    parseAgreement
+  )
+  .option("--no-history", "Do not record this run in .steelheart/history")
+  .option("--no-cache", "Bypass the AI response cache")
+  .option(
+    "--budget <usd>",
+    "Maximum spend for this run in USD (overrides maxCostPerRun)",
+    parseBudgetValue
+  )
+  .option(
+    "--budget-tokens <tokens>",
+    "Maximum tokens for this run (overrides maxTokensPerRun)",
+    parseBudgetValue
+  )
+  .action(async (options: AutoReviewOptions) => {
     showBanner();
-    if (!validateApiKey()) return;
+    if (!validateApiKey()) {
+      process.exitCode = EXIT_CODES.TOOL_ERROR;
+      return;
+    }
+    const sourceError = validateChangeSource(options);
+    if (sourceError) {
+      logError(`❌ ${sourceError}`);
+      process.exitCode = EXIT_CODES.TOOL_ERROR;
+      return;
+    }
+    if (!options.cache) disableResponseCache();
+    const startedAt = Date.now();
+    startCostLedger("auto-review");
+    configureRunBudget({
+      maxCostUSD: options.budget,
+      maxTokens: options.budgetTokens,
+    });
 
     // Smart repository path detection
     let repoPath: string;
@@ -47,6 +614,7 @@ export const autoReviewCommand = new Command("auto-review")
         logInfo(
           "💡 Run this command from within a Git repository or use --repo-path"
         );
+        process.exitCode = EXIT_CODES.TOOL_ERROR;
         return;
       }
       repoPath = detectedGitRoot;
@@ -71,6 +639,7 @@ export const autoReviewCommand = new Command("auto-review")
       if (!gitInfo.isGitRepo) {
         spinner.fail("Not a Git repository!");
         logError("❌ This command requires a Git repository");
+        process.exitCode = EXIT_CODES.TOOL_ERROR;
         return;
       }
 
@@ -79,13 +648,128 @@ export const autoReviewCommand = new Command("auto-review")
       spinner.text = `Smart review on ${gitInfo.currentBranch} branch...`;
       logInfo(`\n🤖 Auto-Review Mode`);
       logInfo(`🌿 Current Branch: ${gitInfo.currentBranch}`);
+      if (options.personas) {
+        logInfo(`🧑‍⚖️ Reviewer personas: ${options.personas.join(", ")}`);
+      }
 
-      // Use enhanced branch analysis to detect changes (including local files)
-      const branchChanges = await getBranchChanges(
-        repoPath,
-        options.base,
-        options.includeLocal || options.staged || true // Default to include local changes for auto-review
-      );
+      if (options.commits) {
+        const { entries, completed, budgetExceeded } = await reviewEachCommit(
+          repoPath,
+          gitInfo.currentBranch,
+          options,
+          outputDir,
+          spinner
+        );
+        if (entries.length === 0) {
+          spinner.warn("No commits to review");
+          logWarning(
+            options.commits === "all"
+              ? `No commits on ${gitInfo.currentBranch} that are not on ${options.base}`
+              : "No non-merge commits found"
+          );
+        }
+        finishCostLedger(outputDir);
+        process.exitCode = getExitCode({
+          budgetExceeded,
+          toolError: !completed,
+          gatePassed: entries.every((entry) => commitVerdict(entry) === "PASS"),
+        });
+        return;
+      }
+
+      // An incremental review continues from the last reviewed commit when
+      // it is still part of this branch's history
+      let branchChanges: BranchChanges | null = null;
+      let carriedIssues: Issue[] = [];
+      const incrementalState = options.incremental
+        ? loadIncrementalState(repoPath, gitInfo.currentBranch)
+        : null;
+      if (options.incremental && !incrementalState) {
+        logInfo(
+          "🔁 No earlier review of this branch; reviewing the whole branch"
+        );
+      } else if (incrementalState) {
+        if (await isAncestorCommit(repoPath, incrementalState.headSha)) {
+          branchChanges = await getRangeChanges(
+            repoPath,
+            incrementalState.headSha
+          );
+          if (branchChanges) {
+            const { carried, dropped } = carryForwardFindings(
+              incrementalState.issues,
+              branchChanges.diffContent
+            );
+            carriedIssues = carried.map((issue) => ({
+              ...issue,
+              carriedFrom: issue.carriedFrom || incrementalState.headSha,
+            }));
+            logInfo(
+              `🔁 Incremental review since ${incrementalState.headSha.slice(
+                0,
+                8
+              )} (${incrementalState.reviewedAt.slice(0, 10)})`
+            );
+            logGray(
+              `   ${carriedIssues.length} earlier findings carried forward, ${dropped} on changed lines re-reviewed`
+            );
+          }
+        } else {
+          logWarning(
+            `🔁 Last reviewed commit ${incrementalState.headSha.slice(
+              0,
+              8
+            )} is no longer in this branch (rebased?); reviewing the whole branch`
+          );
+        }
+      }
+
+      // Explicit ranges, commits and patches replace the base branch guess
+      const explicitSource = options.patch
+        ? `patch ${options.patch === "-" ? "from stdin" : options.patch}`
+        : options.commit
+        ? `commit ${options.commit}`
+        : options.from
+        ? `range ${options.from}..${options.to || "HEAD"}`
+        : null;
+      if (options.patch) {
+        branchChanges = getPatchChanges(
+          await readPatchInput(options.patch),
+          options.patch === "-" ? "stdin" : basename(options.patch)
+        );
+      } else if (options.commit) {
+        branchChanges = await getCommitChanges(repoPath, options.commit);
+      } else if (options.from) {
+        branchChanges = await getRangeChanges(
+          repoPath,
+          options.from,
+          options.to || "HEAD"
+        );
+      }
+      if (explicitSource) {
+        if (!branchChanges) {
+          spinner.fail(`Could not read the ${explicitSource}`);
+          if (options.patch) {
+            logWarning(
+              "💡 The patch must be git-style (git diff or git format-patch output)"
+            );
+          }
+          process.exitCode = EXIT_CODES.TOOL_ERROR;
+          return;
+        }
+        logInfo(`🎯 Reviewing ${explicitSource}`);
+      }
+
+      // Use enhanced branch analysis to detect changes (including local files).
+      // Pull/merge request and incremental reviews only cover commits.
+      if (!branchChanges) {
+        branchChanges = await getBranchChanges(
+          repoPath,
+          options.base,
+          options.githubPr || options.gitlabMr || options.incremental
+            ? false
+            : options.includeLocal || options.staged || true // Default to include local changes for auto-review
+        );
+      }
 
       if (!branchChanges) {
         spinner.warn("Could not analyze branch changes");
@@ -107,11 +791,29 @@ export const autoReviewCommand = new Command("auto-review")
         logWarning(`     - uses: actions/checkout@v4`);
         logWarning(`       with:`);
         logWarning(`         fetch-depth: 0  # Fetch full history`);
+        process.exitCode = EXIT_CODES.TOOL_ERROR;
+        return;
+      }
+
+      if (branchChanges.changedFiles.length === 0 && incrementalState) {
+        spinner.warn("No new commits to review");
+        logWarning(
+          `Nothing changed since the last review of ${gitInfo.currentBranch}`
+        );
+        if (incrementalState.issues.length > 0) {
+          logWarning(
+            `${incrementalState.issues.length} findings from that review are still open`
+          );
+        }
         return;
       }
 
       if (branchChanges.changedFiles.length === 0) {
         spinner.warn("No changes found to review");
+        if (explicitSource) {
+          logWarning(`No changes found in the ${explicitSource}`);
+          return;
+        }
         logWarning(
           `No changes found between ${options.base} and ${gitInfo.currentBranch}`
         );
@@ -132,7 +834,9 @@ export const autoReviewCommand = new Command("auto-review")
       const enableAutoComment = !!options.autoComment; // Auto-comment disabled by default, enabled with --auto-comment flag
       if (enableAutoComment) {
         console.log(
-          "💬 Auto-commenting enabled - will add strategic comments after review"
+          options.dryRun
+            ? "💬 Auto-comment dry run - will print proposed comments as a diff"
+            : "💬 Auto-commenting enabled - will add strategic comments after review"
         );
       } else {
         console.log(
@@ -146,7 +850,14 @@ export const autoReviewCommand = new Command("auto-review")
       const reviewResult = await service.performBranchReview(
         repoPath,
         branchChanges,
-        outputDir
+        outputDir,
+        false,
+        {
+          carriedIssues,
+          personas: options.personas,
+          votes: options.votes,
+          agreement: options.agreement,
+        }
       );
 
       spinner.succeed("Code review completed!");
@@ -161,6 +872,68 @@ export const autoReviewCommand = new Command("auto-review")
 
       console.log(`📊 ${reviewResult.summary}\n`);
 
+      const incomplete = reviewResult.report?.incomplete;
+      if (incomplete) {
+        logWarning(
+          `💸 Partial review: ${incomplete}; the findings cover only what was reviewed\n`
+        );
+      }
+
+      const missingPersonas = reviewResult.report?.missingPersonas || [];
+      if (missingPersonas.length > 0) {
+        logWarning(
+          `⚠️  Incomplete review: no valid result from personas ${missingPersonas.join(
+            ", "
+          )}\n`
+        );
+      }
+
+      const votes = reviewResult.report?.votes;
+      if (votes) {
+        logGray(
+          `🗳️  Decided by ${votes.runs} independent reviews (${
+            votes.failVotes
+          } voted FAIL${
+            votes.invalidVotes ? `, ${votes.invalidVotes} invalid` : ""
+          }); ${votes.droppedFindings} findings below ${Math.round(
+            votes.threshold * 100
+          )}% agreement dropped\n`
+        );
+      }
+
+      const suppressedIssues = reviewResult.report?.suppressedIssues || [];
+      const countSuppressed = (source: string) =>
+        suppressedIssues.filter((entry) => entry.source === source).length;
+      if (countSuppressed("directive") > 0) {
+        logGray(
+          `🙈 ${countSuppressed(
+            "directive"
+          )} findings suppressed by steelheart-ignore directives`
+        );
+      }
+      if (countSuppressed("baseline") > 0) {
+        logGray(
+          `🧊 ${countSuppressed(
+            "baseline"
+          )} known findings hidden by ${BASELINE_FILE}`
+        );
+      }
+
+      const unusedDirectives = reviewResult.report?.unusedDirectives || [];
+      if (unusedDirectives.length > 0) {
+        logWarning(
+          `🧹 ${unusedDirectives.length} steelheart-ignore directives matched no finding:`
+        );
+        unusedDirectives.forEach((directive) =>
+          logGray(
+            `   • ${directive.file}:${directive.line} (ignore-${directive.scope})`
+          )
+        );
+      }
+      if (suppressedIssues.length > 0 || unusedDirectives.length > 0) {
+        console.log();
+      }
+
       // Show critical issues (blocking)
       if (reviewResult.criticalIssues.length > 0) {
         logError("🔴 CRITICAL ISSUES (Must fix before merge):");
@@ -196,6 +969,69 @@ export const autoReviewCommand = new Command("auto-review")
       logGray(`Modified Files: ${branchChanges.modifiedFiles.length}`);
       logGray(`Full Report: ${outputDir}`);
 
+      writeReviewFormats(
+        reviewResult.report,
+        options.format,
+        outputDir,
+        repoPath,
+        branchChanges
+      ).forEach((filePath) => logGray(`Report: ${filePath}`));
+
+      let postingFailed = false;
+      if (options.githubPr) {
+        spinner.start(
+          `Posting review to GitHub pull request #${options.githubPr}...`
+        );
+        try {
+          const posted = await new GitHubReviewService().postReview(
+            repoPath,
+            options.githubPr,
+            reviewResult.report,
+            branchChanges.diffContent
+          );
+          spinner.succeed(
+            `GitHub review posted (${posted.event}, ${posted.inlineComments} inline comments)`
+          );
+          if (posted.summaryOnlyFindings > 0) {
+            logGray(
+              `${posted.summaryOnlyFindings} findings outside the diff were listed in the review body`
+            );
+          }
+          if (posted.url) logGray(`Review: ${posted.url}`);
+        } catch (githubError) {
+          spinner.fail("Posting GitHub review failed");
+          logError(`${githubError}`);
+          postingFailed = true;
+        }
+      }
+
+      if (options.gitlabMr) {
+        spinner.start(
+          `Posting review to GitLab merge request !${options.gitlabMr}...`
+        );
+        try {
+          const posted = await new GitLabReviewService().postReview(
+            repoPath,
+            options.gitlabMr,
+            reviewResult.report,
+            branchChanges
+          );
+          spinner.succeed(
+            `GitLab review posted (${posted.discussions} discussions, commit status ${posted.commitState})`
+          );
+          if (posted.summaryOnlyFindings > 0) {
+            logGray(
+              `${posted.summaryOnlyFindings} findings outside the diff were listed in the summary note`
+            );
+          }
+          if (posted.noteUrl) logGray(`Summary: ${posted.noteUrl}`);
+        } catch (gitlabError) {
+          spinner.fail("Posting GitLab review failed");
+          logError(`${gitlabError}`);
+          postingFailed = true;
+        }
+      }
+
       // Recommendation based on decision
       if (reviewResult.decision === "FAIL") {
         logError(
@@ -209,6 +1045,38 @@ export const autoReviewCommand = new Command("auto-review")
         logSuccess("\n✅ RECOMMENDATION: Safe to merge");
       }
 
+      if (options.updateBaseline) {
+        const update = updateBaseline(repoPath, reviewResult.report.issues);
+        logSuccess(
+          `\n🧊 Baseline updated: ${update.added} findings added (${update.total} total)`
+        );
+        logGray(`Baseline: ${update.path}`);
+      }
+
+      // Findings just written to the baseline are accepted, so they do not
+      // fail this run
+      const gate = options.updateBaseline
+        ? { passed: true, reasons: [] }
+        : evaluateQualityGate(reviewResult, {
+            failOn: options.failOn,
+            maxIssues: options.maxIssues,
+          });
+      if (!gate.passed) {
+        logError(`\n🚦 Quality gate failed: ${gate.reasons.join("; ")}`);
+      } else if (options.failOn || options.maxIssues !== undefined) {
+        logSuccess("\n🚦 Quality gate passed");
+      }
+
+      if (options.fix) {
+        await fixFindings(
+          repoPath,
+          branchChanges,
+          reviewResult.report.issues,
+          !!options.yes,
+          spinner
+        );
+      }
+
       //Perform auto-commenting if enabled (after review is complete and saved)
       if (enableAutoComment) {
         spinner.start("Performing auto-commenting on reviewed code...");
@@ -216,27 +1084,52 @@ export const autoReviewCommand = new Command("auto-review")
         try {
           const commentResults = await service.autoCommentChangedCode(
             repoPath,
-            branchChanges
+            branchChanges,
+            { dryRun: !!options.dryRun }
           );
 
           spinner.succeed("Auto-commenting completed!");
 
           const successfulComments = commentResults.filter((r) => r.success);
           const totalCommentsAdded = successfulComments.reduce(
-            (sum, r) => sum + (r.commentsAdded || 0),
+            (sum, r) => sum + r.commentsAdded,
+            0
+          );
+          const totalCommentsRejected = successfulComments.reduce(
+            (sum, r) => sum + r.commentsRejected,
             0
           );
 
+          if (options.dryRun) {
+            successfulComments.forEach((result) => {
+              if (result.diff) {
+                console.log();
+                logDiff(result.diff);
+              }
+            });
+          }
+
           console.log(`\n💬 Auto-Comment Results:`);
           logGray(`Files Processed: ${commentResults.length}`);
-          logGray(`Comments Added: ${totalCommentsAdded}`);
+          logGray(
+            `Comments ${
+              options.dryRun ? "Proposed" : "Added"
+            }: ${totalCommentsAdded}`
+          );
+          if (totalCommentsRejected > 0) {
+            logGray(
+              `Comments Dropped by Safety Checks: ${totalCommentsRejected}`
+            );
+          }
 
-          if (totalCommentsAdded > 0) {
+          if (totalCommentsAdded > 0 && options.dryRun) {
+            logInfo("ℹ️  Dry run: no files were changed");
+          } else if (totalCommentsAdded > 0) {
             logSuccess(
               "✨ Strategic comments added to help code understanding"
             );
             successfulComments.forEach((result) => {
-              if (result.commentsAdded && result.commentsAdded > 0) {
+              if (result.commentsAdded > 0 && !options.dryRun) {
                 logGray(
                   `   • ${result.file}: ${result.commentsAdded} comments${
                     result.isNew ? " [NEW]" : ""
@@ -261,9 +1154,67 @@ export const autoReviewCommand = new Command("auto-review")
           );
         }
       }
+
+      // A partial review did not see every change, so the next incremental
+      // run starts from the same commit again
+      if (options.incremental && !incomplete && branchChanges.headSha) {
+        const statePath = saveIncrementalState(
+          repoPath,
+          gitInfo.currentBranch,
+          {
+            headSha: branchChanges.headSha,
+            base: incrementalState?.base || branchChanges.baseBranch,
+            reviewedAt: new Date().toISOString(),
+            issues: reviewResult.report.issues,
+          }
+        );
+        logGray(`Incremental state: ${statePath}`);
+      }
+
+      if (options.history) {
+        try {
+          const totals = getCostLedger().totals;
+          const historyPath = saveHistoryRecord(
+            repoPath,
+            buildHistoryRecord(reviewResult, {
+              branch: gitInfo.currentBranch,
+              base: branchChanges.baseBranch,
+              ...(await getCommitIdentity(repoPath, branchChanges.contentRef)),
+              filesReviewed: branchChanges.changedFiles.length,
+              costUSD: totals.costUSD,
+              tokens: totals.promptTokens + totals.completionTokens,
+              durationMs: Date.now() - startedAt,
+            })
+          );
+          logGray(`History: ${historyPath}`);
+        } catch (historyError) {
+          logWarning(`⚠️  Could not record review history: ${historyError}`);
+        }
+      }
+
+      finishCostLedger(outputDir);
+
+      // A partial review reports the budget; one that could not be
+      // delivered, or that is missing a requested persona, counts as a tool
+      // error even when the gate passed
+      process.exitCode = getExitCode({
+        budgetExceeded: !!incomplete,
+        toolError: postingFailed || missingPersonas.length > 0,
+        gatePassed: gate.passed,
+      });
     } catch (error) {
-      spinner.fail("Smart review failed");
-      logError(`Error: ${error}`);
-      process.exit(1);
+      const budgetExceeded = error instanceof BudgetExceededError;
+      if (budgetExceeded) {
+        spinner.warn("Review stopped: run budget exhausted");
+        logWarning(`💸 ${(error as Error).message}`);
+        logInfo("💡 Raise --budget / maxCostPerRun or review fewer files");
+      } else {
+        spinner.fail("Smart review failed");
+        logError(`Error: ${error}`);
+      }
+      finishCostLedger(getOutputDir(options.output));
+      process.exit(
+        budgetExceeded ? EXIT_CODES.BUDGET_EXCEEDED : EXIT_CODES.TOOL_ERROR
+      );
     }
   });
@@ -12,6 +12,9 @@ import {
   logGray,
 } from "../utils/ui/console";
 import { validateApiKey, getOutputDir } from "../utils/config/config-manager";
+import { disableResponseCache } from "../utils/cache/response-cache";
+import { finishCostLedger, startCostLedger } from "../utils/usage/cost-ledger";
+import { configureRunBudget, parseBudgetValue } from "../utils/usage/budget";
 import { getGitInfo } from "../utils/git/git-info";
 import { getBranchChanges } from "../utils/git/branch-operations";
 import { DocumentationService } from "../services/documentation";
@@ -29,9 +32,26 @@ export const branchDocsCommand = new Command("branch-docs")
   )
   .option("--commit-messages", "Include commit messages in documentation")
   .option("--include-local", "Include uncommitted local changes")
+  .option("--no-cache", "Bypass the AI response cache")
+  .option(
+    "--budget <usd>",
+    "Maximum spend for this run in USD (overrides maxCostPerRun)",
+    parseBudgetValue
+  )
+  .option(
+    "--budget-tokens <tokens>",
+    "Maximum tokens for this run (overrides maxTokensPerRun)",
+    parseBudgetValue
+  )
   .action(async (options) => {
     showBanner();
     if (!validateApiKey()) return;
+    if (!options.cache) disableResponseCache();
+    startCostLedger("branch-docs");
+    configureRunBudget({
+      maxCostUSD: options.budget,
+      maxTokens: options.budgetTokens,
+    });
 
     const repoPath = process.cwd();
     const spinner = ora("Analyzing branch changes...").start();
@@ -141,9 +161,12 @@ export const branchDocsCommand = new Command("branch-docs")
         logGray(`Includes: Uncommitted local changes`);
       }
       logGray(`Documentation saved to: ${docPath}`);
+
+      finishCostLedger(outputDir);
     } catch (error) {
       spinner.fail("Branch documentation generation failed");
       logError(`Error: ${error}`);
+      finishCostLedger(getOutputDir(options.output));
       process.exit(1);
     }
   });
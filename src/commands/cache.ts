@@ -0,0 +1,57 @@
+import { Command } from "commander";
+import {
+  showBanner,
+  logInfo,
+  logSuccess,
+  logError,
+  logGray,
+} from "../utils/ui/console";
+import {
+  clearCache,
+  getCacheSettings,
+  getCacheStats,
+} from "../utils/cache/response-cache";
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const cacheCommand = new Command("cache")
+  .description("🗄️  Manage the AI response cache")
+  .argument("<action>", "Cache action (clear|stats)")
+  .action(async (action: string) => {
+    showBanner();
+    const settings = getCacheSettings();
+
+    if (action === "clear") {
+      const removed = clearCache(settings);
+      logSuccess(`✅ Removed ${removed} cached responses`);
+      logGray(`Cache directory: ${settings.dir}`);
+      return;
+    }
+
+    if (action === "stats") {
+      const stats = getCacheStats(settings);
+      logInfo("🗄️  Response Cache:");
+      logGray(`Directory: ${stats.dir}`);
+      logGray(`Enabled: ${settings.enabled ? "yes" : "no"}`);
+      logGray(`Entries: ${stats.entries} (${stats.expiredEntries} expired)`);
+      logGray(
+        `Size: ${formatBytes(stats.sizeBytes)} / ${formatBytes(
+          settings.maxSizeBytes
+        )}`
+      );
+      logGray(`TTL: ${Math.round(settings.ttlMs / (60 * 60 * 1000))} hours`);
+      if (stats.oldest && stats.newest) {
+        logGray(`Oldest entry: ${stats.oldest.toISOString()}`);
+        logGray(`Newest entry: ${stats.newest.toISOString()}`);
+      }
+      return;
+    }
+
+    logError(`Unknown cache action: ${action}`);
+    logInfo("💡 Use: st cache clear | st cache stats");
+    process.exit(1);
+  });
@@ -1,7 +1,11 @@
 import { Command } from "commander";
 import inquirer from "inquirer";
 import { showBanner, logInfo, logSuccess, logGray } from "../utils/ui/console";
-import { getConfig, saveConfig } from "../utils/config/config-manager";
+import {
+  getConfig,
+  getProviderConfig,
+  saveConfig,
+} from "../utils/config/config-manager";
 
 export const configCommand = new Command("config")
   .description("⚙️ Manage Steelheart AI configuration")
@@ -12,7 +16,12 @@ export const configCommand = new Command("config")
 
     if (options.show) {
       const config = getConfig();
+      const provider = getProviderConfig(config);
       logInfo("📋 Current Configuration:");
+      logGray(`Provider: ${provider.type}`);
+      if (provider.baseURL) {
+        logGray(`Provider Endpoint: ${provider.baseURL}`);
+      }
       logGray(`API Key: ${config.apiKey ? "***configured***" : "not set"}`);
       logGray(
         `Output Directory: ${
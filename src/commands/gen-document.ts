@@ -3,6 +3,7 @@ import { ensureDirSync } from "fs-extra";
 import ora from "ora";
 import { showBanner, logInfo, logError, logGray } from "../utils/ui/console";
 import { validateApiKey, getOutputDir } from "../utils/config/config-manager";
+import { disableResponseCache } from "../utils/cache/response-cache";
 import { DocumentationService } from "../services/documentation";
 
 export const genDocumentCommand = new Command("gen-document")
@@ -17,9 +18,11 @@ export const genDocumentCommand = new Command("gen-document")
     "markdown"
   )
   .option("--pr", "Generate PR documentation")
+  .option("--no-cache", "Bypass the AI response cache")
   .action(async (projectPath: string, options) => {
     showBanner();
     if (!validateApiKey()) return;
+    if (!options.cache) disableResponseCache();
 
     const spinner = ora("Analyzing project structure...").start();
 
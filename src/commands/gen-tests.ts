@@ -3,6 +3,9 @@ import { ensureDirSync } from "fs-extra";
 import ora from "ora";
 import { TestingService } from "../services/testing";
 import { getOutputDir, validateApiKey } from "../utils/config/config-manager";
+import { disableResponseCache } from "../utils/cache/response-cache";
+import { finishCostLedger, startCostLedger } from "../utils/usage/cost-ledger";
+import { configureRunBudget, parseBudgetValue } from "../utils/usage/budget";
 import { logError, showBanner, logInfo } from "../utils/ui/console";
 import { findGitRoot, getRelativePathFromGitRoot } from "../utils/git/git-root";
 
@@ -18,9 +21,26 @@ export const genTestsCommand = new Command("gen-tests")
     "jest"
   )
   .option("--coverage", "Generate coverage reports")
+  .option("--no-cache", "Bypass the AI response cache")
+  .option(
+    "--budget <usd>",
+    "Maximum spend for this run in USD (overrides maxCostPerRun)",
+    parseBudgetValue
+  )
+  .option(
+    "--budget-tokens <tokens>",
+    "Maximum tokens for this run (overrides maxTokensPerRun)",
+    parseBudgetValue
+  )
   .action(async (providedPath: string | undefined, options) => {
     showBanner();
     if (!validateApiKey()) return;
+    if (!options.cache) disableResponseCache();
+    startCostLedger("gen-tests");
+    configureRunBudget({
+      maxCostUSD: options.budget,
+      maxTokens: options.budgetTokens,
+    });
 
     const spinner = ora("Analyzing code for test generation...").start();
 
@@ -61,12 +81,19 @@ export const genTestsCommand = new Command("gen-tests")
 
       spinner.text = "Generating tests...";
       const service = new TestingService();
-      await service.generateTests(projectPath, outputDir);
+      const result = await service.generateTests(projectPath, outputDir);
+
+      if (result.budgetExceeded) {
+        spinner.warn("Run budget exhausted; kept the tests generated so far");
+      } else {
+        spinner.succeed("Tests generated!");
+      }
 
-      spinner.succeed("Tests generated!");
+      finishCostLedger(outputDir);
     } catch (error) {
       spinner.fail("Test generation failed");
       logError(`Error: ${error}`);
+      finishCostLedger(getOutputDir(options.output));
       process.exit(1);
     }
   });
@@ -0,0 +1,184 @@
+import { Command, InvalidArgumentError } from "commander";
+import {
+  showBanner,
+  logInfo,
+  logSuccess,
+  logWarning,
+  logError,
+  logGray,
+} from "../utils/ui/console";
+import { findGitRoot } from "../utils/git/git-root";
+import {
+  groupHistory,
+  HISTORY_DIR,
+  HistoryGroupStats,
+  loadHistory,
+  summarizeHistory,
+} from "../utils/history/review-history";
+
+const parsePositiveInteger = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError(
+      `Expected a positive whole number, got: ${value}`
+    );
+  }
+  return parsed;
+};
+
+const parseGroupBy = (value: string): "branch" | "author" => {
+  if (value !== "branch" && value !== "author") {
+    throw new InvalidArgumentError(
+      `Invalid --by value: ${value} (use branch|author)`
+    );
+  }
+  return value;
+};
+
+const percent = (part: number, total: number): string =>
+  total ? `${Math.round((part / total) * 100)}%` : "-";
+
+const formatGroupRow = (group: HistoryGroupStats): string =>
+  `${group.key.padEnd(28)} ${String(group.runs).padStart(5)} ${percent(
+    group.failures,
+    group.runs
+  ).padStart(9)} ${group.averageIssues.toFixed(1).padStart(11)} ${(
+    "$" + group.costUSD.toFixed(4)
+  ).padStart(10)}`;
+
+const GROUP_HEADER = `${"".padEnd(28)} ${"Runs".padStart(
+  5
+)} ${"FAIL rate".padStart(9)} ${"Avg issues".padStart(11)} ${"Cost".padStart(
+  10
+)}`;
+
+export const historyCommand = new Command("history")
+  .description("📈 Show review trends from past auto-review runs")
+  .option(
+    "-r, --repo-path <path>",
+    "Repository path (auto-detected if not specified)"
+  )
+  .option("--branch <name>", "Only runs on this branch")
+  .option("--author <name>", "Only runs on commits by this author")
+  .option(
+    "--since <days>",
+    "Only runs from the last <days> days",
+    parsePositiveInteger
+  )
+  .option(
+    "--by <field>",
+    "Break results down by branch or author",
+    parseGroupBy
+  )
+  .option(
+    "--last <n>",
+    "Number of recent runs to list",
+    parsePositiveInteger,
+    10
+  )
+  .option("--json", "Print the summary as JSON")
+  .action((options) => {
+    const repoPath = options.repoPath || findGitRoot() || process.cwd();
+    const records = loadHistory(repoPath, {
+      branch: options.branch,
+      author: options.author,
+      sinceDays: options.since,
+    });
+    const summary = summarizeHistory(records);
+    const groups = options.by
+      ? groupHistory(records, (record) =>
+          options.by === "author" ? record.author || "(unknown)" : record.branch
+        )
+      : undefined;
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          { ...summary, groups, recent: records.slice(-options.last) },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    showBanner();
+    if (records.length === 0) {
+      logWarning("No review history found");
+      logGray(`History directory: ${repoPath}/${HISTORY_DIR}`);
+      logInfo("💡 Every st auto-review run adds a record");
+      return;
+    }
+
+    logInfo("📈 Review History:");
+    logGray(
+      `Runs: ${summary.runs} (${records[0].timestamp.slice(0, 10)} to ${records[
+        records.length - 1
+      ].timestamp.slice(0, 10)})`
+    );
+    logGray(
+      `FAIL rate: ${percent(summary.failures, summary.runs)} (${
+        summary.failures
+      } of ${summary.runs})`
+    );
+    logGray(`Average findings per run: ${summary.averageIssues.toFixed(1)}`);
+    logGray(
+      `Average duration: ${(summary.averageDurationMs / 1000).toFixed(1)}s`
+    );
+    logGray(`Total cost: $${summary.costUSD.toFixed(4)}`);
+
+    if (summary.weeks.length > 1) {
+      const first = summary.weeks[0];
+      const latest = summary.weeks[summary.weeks.length - 1];
+      const change = latest.averageIssues - first.averageIssues;
+      const message = `Average findings per run went from ${first.averageIssues.toFixed(
+        1
+      )} (week of ${first.key}) to ${latest.averageIssues.toFixed(
+        1
+      )} (week of ${latest.key})`;
+      if (change < 0) logSuccess(`\n📉 ${message}`);
+      else if (change > 0) logError(`\n📈 ${message}`);
+      else logInfo(`\n➖ ${message}`);
+    }
+
+    logInfo("\n🗓️  By Week:");
+    logGray(GROUP_HEADER.replace("".padEnd(28), "Week of".padEnd(28)));
+    summary.weeks.forEach((week) => logGray(formatGroupRow(week)));
+
+    if (groups) {
+      logInfo(`\n👥 By ${options.by === "author" ? "Author" : "Branch"}:`);
+      logGray(GROUP_HEADER);
+      groups
+        .sort((a, b) => b.runs - a.runs)
+        .forEach((group) => logGray(formatGroupRow(group)));
+    }
+
+    if (summary.categories.length > 0) {
+      logInfo("\n🔁 Recurring Categories:");
+      summary.categories.forEach((entry) =>
+        logGray(
+          `${entry.category.padEnd(16)} in ${percent(
+            entry.runs,
+            summary.runs
+          ).padStart(4)} of runs, ${entry.findings} findings`
+        )
+      );
+    }
+
+    logInfo(`\n🕒 Last ${Math.min(options.last, records.length)} Runs:`);
+    records
+      .slice(-options.last)
+      .reverse()
+      .forEach((record) =>
+        logGray(
+          `${record.timestamp.slice(0, 16).replace("T", " ")}  ${
+            record.decision === "PASS" ? "✅ PASS" : "❌ FAIL"
+          }  ${record.branch} @ ${(record.commitSha || "-").slice(0, 8)}  ${
+            record.issues.critical
+          }/${record.issues.major}/${
+            record.issues.minor
+          }  $${record.costUSD.toFixed(4)}`
+        )
+      );
+    logGray("(critical/major/minor findings)");
+  });
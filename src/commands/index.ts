@@ -5,3 +5,5 @@ export { genDocumentCommand } from "./gen-document";
 export { genTestsCommand } from "./gen-tests";
 export { analyzeCommand } from "./analyze";
 export { configCommand } from "./config";
+export { cacheCommand } from "./cache";
+export { historyCommand } from "./history";
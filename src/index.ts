@@ -16,6 +16,14 @@ export {
 };
 
 export * from "./types";
+export {
+  createProvider,
+  LLMProvider,
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  CompletionUsage,
+} from "./services/providers";
 
 // Main execution function for when used as a module
 export async function analyzeRepository(
@@ -0,0 +1,81 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CodeFixService } from "./code-fix";
+import { Issue } from "../types";
+
+const generateContent = jest.fn();
+
+jest.mock("./openai-client", () => ({
+  OpenAIClient: jest.fn().mockImplementation(() => ({ generateContent })),
+}));
+
+describe("CodeFixService.proposeFix", () => {
+  let repoPath: string;
+
+  const issue = (file: string): Issue => ({
+    file,
+    line: 1,
+    severity: "critical",
+    category: "bug",
+    title: "Wrong value",
+    description: "The exported value is wrong.",
+  });
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), "steelheart-fix-"));
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: repoPath, stdio: "ignore" });
+    git("init", "-q");
+    writeFileSync(join(repoPath, "app.js"), "module.exports = 'reviewed';\n");
+    git("add", "app.js");
+    git(
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "-qm",
+      "init"
+    );
+    writeFileSync(join(repoPath, "app.js"), "module.exports = 'edited';\n");
+    generateContent.mockResolvedValue("NO_FIX");
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+    generateContent.mockReset();
+  });
+
+  it.each(["../../.ssh/id_rsa", "/etc/passwd", "src/../../outside.js"])(
+    "rejects %s without asking the model",
+    async (file) => {
+      const fix = await new CodeFixService().proposeFix(repoPath, issue(file));
+
+      expect(fix.applies).toBe(false);
+      expect(fix.error).toMatch(/outside the repository/);
+      expect(generateContent).not.toHaveBeenCalled();
+    }
+  );
+
+  it("sends the reviewed content instead of the working tree", async () => {
+    await new CodeFixService().proposeFix(repoPath, issue("./app.js"), {
+      contentRef: "HEAD",
+    });
+
+    const prompt: string = generateContent.mock.calls[0][0];
+    expect(prompt).toContain("module.exports = 'reviewed';");
+    expect(prompt).not.toContain("edited");
+  });
+
+  it("reports a missing file", async () => {
+    const fix = await new CodeFixService().proposeFix(
+      repoPath,
+      issue("missing.js")
+    );
+
+    expect(fix.error).toBe("File not found");
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
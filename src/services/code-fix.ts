@@ -0,0 +1,136 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+import { OpenAIClient } from "./openai-client";
+import { Issue } from "../types";
+import { BranchChanges } from "../types/cli";
+import { getFileType } from "../utils/code-extraction";
+import { readChangedFile } from "../utils/git/branch-operations";
+import { runWithLedgerFile } from "../utils/usage/cost-ledger";
+import {
+  checkPatch,
+  checkPatchScope,
+  extractUnifiedDiff,
+} from "../utils/git/patch";
+
+// Files longer than this are sent as a window around the finding
+const MAX_FULL_FILE_LINES = 400;
+const CONTEXT_WINDOW_LINES = 60;
+
+export interface ProposedFix {
+  issue: Issue;
+  // Null when the model declined or returned no usable diff
+  patch: string | null;
+  applies: boolean;
+  error?: string;
+}
+
+export class CodeFixService {
+  private openaiClient: OpenAIClient;
+
+  constructor() {
+    this.openaiClient = new OpenAIClient();
+  }
+
+  /**
+   * Asks the model for a minimal unified diff that fixes `issue` and checks
+   * it against the working tree with `git apply --check`. The model sees
+   * the file as it was reviewed (`branchChanges.contentRef`). Findings that
+   * point outside the repository and patches that touch any file other than
+   * the finding's are not applicable. Nothing is written; see applyPatch.
+   */
+  async proposeFix(
+    repoPath: string,
+    issue: Issue,
+    branchChanges: Pick<BranchChanges, "contentRef" | "diffOnly"> = {}
+  ): Promise<ProposedFix> {
+    // Findings come from model output, so the path is untrusted
+    const root = resolve(repoPath);
+    const file = relative(root, resolve(root, issue.file));
+    if (!file || file.split(sep)[0] === ".." || isAbsolute(file)) {
+      return {
+        issue,
+        patch: null,
+        applies: false,
+        error: `${issue.file} is outside the repository`,
+      };
+    }
+
+    const content = readChangedFile(repoPath, branchChanges, file);
+    if (content === null) {
+      return { issue, patch: null, applies: false, error: "File not found" };
+    }
+
+    const response = await runWithLedgerFile(file, () =>
+      this.openaiClient.generateContent(
+        this.buildFixPrompt(file, content, issue),
+        `You are a senior engineer writing the smallest possible patch for one code review finding.
+
+RESPONSE REQUIREMENTS:
+1. Reply with a single unified diff (git diff format) and nothing else
+2. Use "--- a/<path>" and "+++ b/<path>" headers with the exact file path given
+3. Copy context lines exactly from the file, without the line-number prefixes
+4. Change only what the finding requires; no refactoring, reformatting or unrelated fixes
+5. Reply with NO_FIX if the finding cannot be fixed safely in this file`
+      )
+    );
+
+    const patch = extractUnifiedDiff(response);
+    if (!patch) {
+      return {
+        issue,
+        patch: null,
+        applies: false,
+        error: /NO_FIX/.test(response)
+          ? "The model found no safe fix"
+          : "The response contained no unified diff",
+      };
+    }
+
+    // A fix for one finding may only touch that finding's file
+    const scopeError = checkPatchScope(patch, file);
+    if (scopeError) {
+      return { issue, patch, applies: false, error: scopeError };
+    }
+
+    const check = await checkPatch(repoPath, patch);
+    return { issue, patch, applies: check.applies, error: check.error };
+  }
+
+  private buildFixPrompt(file: string, content: string, issue: Issue): string {
+    const lines = content.split("\n");
+    let start = 0;
+    let end = lines.length;
+    if (lines.length > MAX_FULL_FILE_LINES) {
+      start = Math.max(0, issue.line - 1 - CONTEXT_WINDOW_LINES);
+      end = Math.min(lines.length, issue.line + CONTEXT_WINDOW_LINES);
+    }
+
+    const excerpt = lines
+      .slice(start, end)
+      .map((line, index) => `${start + index + 1}: ${line}`)
+      .join("\n");
+    const fileType = getFileType(file);
+
+    return `Write a patch that fixes this code review finding.
+
+## Finding:
+- File: ${file}
+- Line: ${issue.line}
+- Severity: ${issue.severity}
+- Category: ${issue.category}${issue.rule ? `\n- Rule: ${issue.rule}` : ""}
+- Problem: ${issue.title ? `${issue.title}: ` : ""}${issue.description}${
+      issue.suggestion ? `\n- Suggested fix: ${issue.suggestion}` : ""
+    }
+
+## File ${file} (${fileType}${
+      start > 0 || end < lines.length
+        ? `, lines ${start + 1}-${end} of ${lines.length}`
+        : ""
+    }):
+Each line is prefixed with its line number; the prefix is not part of the file.
+\`\`\`
+${excerpt}
+\`\`\`
+
+Reply with a unified diff against ${file}, or NO_FIX.`;
+  }
+}
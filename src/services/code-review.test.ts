@@ -0,0 +1,146 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CodeReviewService } from "./code-review";
+import * as configManager from "../utils/config/config-manager";
+import { InvalidReviewError } from "../utils/review/structured-review";
+
+const replies: string[] = [];
+const prompts: string[] = [];
+
+jest.mock("./openai-client", () => ({
+  OpenAIClient: jest.fn().mockImplementation(() => ({
+    startConversation: () => ({
+      send: async (prompt: string) => {
+        prompts.push(prompt);
+        return replies.shift() ?? "";
+      },
+    }),
+  })),
+}));
+
+const validReply = JSON.stringify({
+  decision: "FAIL",
+  summary: "One problem.",
+  overallAssessment: "Details.",
+  issues: [
+    {
+      file: "app.js",
+      line: 1,
+      severity: "critical",
+      category: "bug",
+      title: "Broken call",
+      description: "It breaks.",
+    },
+  ],
+  suggestions: [],
+});
+
+describe("CodeReviewService.performBranchReview", () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), "steelheart-review-"));
+    writeFileSync(join(repoPath, "app.js"), "module.exports = 1;\n");
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+    replies.length = 0;
+    prompts.length = 0;
+    jest.restoreAllMocks();
+  });
+
+  const branchChanges = () => ({
+    currentBranch: "feature",
+    baseBranch: "main",
+    changedFiles: [
+      { file: "app.js", insertions: 1, deletions: 0, isNew: true },
+    ],
+    newFiles: ["app.js"],
+    modifiedFiles: [],
+    diffContent: "",
+  });
+
+  it("fails instead of passing when the reply never becomes valid JSON", async () => {
+    replies.push(
+      "## REVIEW DECISION: PASS",
+      '{"decision": "FAIL", "issues": "broken"',
+      "still not a review"
+    );
+
+    await expect(
+      new CodeReviewService().performBranchReview(repoPath, branchChanges())
+    ).rejects.toBeInstanceOf(InvalidReviewError);
+  });
+
+  it("fails when every review batch returns invalid JSON", async () => {
+    // Two files too large to share one batch
+    const longFile = Array.from(
+      { length: 300 },
+      (_, index) => `const value${index} = ${index};`
+    ).join("\n");
+    writeFileSync(join(repoPath, "a.js"), longFile);
+    writeFileSync(join(repoPath, "b.js"), longFile);
+    jest
+      .spyOn(configManager, "getConfig")
+      .mockReturnValue({ review: { batchTokens: 2000 } } as any);
+    const changes = {
+      ...branchChanges(),
+      changedFiles: ["a.js", "b.js"].map((file) => ({
+        file,
+        insertions: 300,
+        deletions: 0,
+        isNew: true,
+      })),
+      newFiles: ["a.js", "b.js"],
+    };
+    const service = new CodeReviewService();
+    const send = jest.fn(async (_prompt: string) => "not json");
+    const warn = jest.mocked(console.warn);
+    (service as any).openaiClient = {
+      startConversation: () => ({ send }),
+    };
+
+    await expect(
+      service.performBranchReview(repoPath, changes)
+    ).rejects.toBeInstanceOf(InvalidReviewError);
+    // Every batch was asked and repaired; nothing was left to synthesize
+    expect(send.mock.calls.length).toBeGreaterThan(3);
+    expect(send.mock.calls.length % 3).toBe(0);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^None of the \d+ review batches/)
+    );
+  });
+
+  it("returns the structured review when the reply is valid", async () => {
+    replies.push(validReply);
+
+    const result = await new CodeReviewService().performBranchReview(
+      repoPath,
+      branchChanges()
+    );
+    expect(result.decision).toBe("FAIL");
+    expect(result.report.issues).toHaveLength(1);
+    expect(prompts).toHaveLength(1);
+  });
+
+  it("repairs an invalid reply in the same conversation", async () => {
+    replies.push(
+      '```json\n{"decision": "MAYBE", "summary": "", "issues": []}\n```',
+      validReply
+    );
+
+    const result = await new CodeReviewService().performBranchReview(
+      repoPath,
+      branchChanges()
+    );
+    expect(result.report.issues).toHaveLength(1);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('- decision must be "PASS" or "FAIL"');
+    expect(prompts[1]).toContain("- overallAssessment must be a string");
+  });
+});
@@ -1,10 +1,131 @@
 import { OpenAIClient } from "./openai-client";
-import { ReviewReport, Issue, Suggestion, RepositoryAnalysis } from "../types";
+import {
+  ReviewReport,
+  ReviewVotes,
+  Issue,
+  Suggestion,
+  RepositoryAnalysis,
+  BranchReviewResult,
+} from "../types";
 import { analyzeRepository } from "../utils/repository-analyzer";
-import { extractCodeFromResponse, getFileType } from "../utils/code-extraction";
+import { getFileType } from "../utils/code-extraction";
+import { runWithLedgerFile } from "../utils/usage/cost-ledger";
+import { applyBaseline } from "../utils/review/baseline";
+import { applySuppressionDirectives } from "../utils/review/suppressions";
+import {
+  attributeRuleFindings,
+  loadReviewGuidance,
+  renderGuidancePrompt,
+  ReviewGuidance,
+} from "../utils/review/rules";
+import {
+  mergeStaticFindings,
+  runStaticChecks,
+} from "../utils/review/static-checks";
+import { BudgetExceededError, isBudgetExceeded } from "../utils/usage/budget";
+import {
+  extractJson,
+  formatIssueLine,
+  InvalidReviewError,
+  mergeStructuredReviews,
+  recountIssues,
+  renderReviewMarkdown,
+  REVIEW_JSON_SCHEMA,
+  StructuredReview,
+  toReviewReport,
+  validateStructuredReview,
+} from "../utils/review/structured-review";
+import {
+  numberLines,
+  packIntoBatches,
+  splitByTokens,
+} from "../utils/review/batching";
+import {
+  getChangedLinesFromDiff,
+  readChangedFile,
+  splitDiffByFile,
+} from "../utils/git/branch-operations";
+import {
+  CommentInsertion,
+  insertComments,
+  renderInsertionDiff,
+} from "../utils/code-comments";
+import {
+  mergePersonaReviews,
+  REVIEW_PERSONAS,
+  ReviewPersona,
+} from "../utils/review/personas";
+import {
+  DEFAULT_AGREEMENT,
+  minimumValidVotes,
+  voteOnReviews,
+} from "../utils/review/voting";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { countTokens } from "../utils/usage/tokens";
+import { getConfig } from "../utils/config/config-manager";
 import { writeFileSync, mkdirSync, existsSync, readFileSync } from "fs";
 import { join, dirname } from "path";
 
+// Follow-up turns allowed when the review JSON fails to parse or validate
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Prompt size per review request when review.batchTokens is not configured
+const DEFAULT_REVIEW_BATCH_TOKENS = 60000;
+// Floor for file content per batch, whatever the fixed prompt costs
+const MIN_BATCH_CONTENT_TOKENS = 2000;
+// Persona reviews in flight at once when review.concurrency is not configured
+const DEFAULT_REVIEW_CONCURRENCY = 2;
+
+interface ReviewFileSection {
+  file: string;
+  isNew: boolean;
+  insertions: number;
+  deletions: number;
+  kind: "content" | "diff";
+  text: string;
+  // Set when the file was split, e.g. "lines 1-800 of 2400"
+  part?: string;
+}
+
+interface ReviewPromptContext {
+  guidance: ReviewGuidance;
+  // Pre-check findings, listed so the model does not repeat them
+  staticIssues: Issue[];
+  // Commit message the change is checked against, in per-commit reviews
+  intent?: string;
+  // Narrows the review to one specialist's concerns
+  persona?: ReviewPersona;
+  // Vote index in --votes runs, so each vote is sampled separately
+  sample?: number;
+}
+
+export interface AutoCommentResult {
+  file: string;
+  success: boolean;
+  commentsAdded: number;
+  // Proposed comments dropped by the safety checks
+  commentsRejected: number;
+  isNew?: boolean;
+  // Set in dry-run mode instead of writing the file
+  diff?: string;
+  error?: string;
+}
+
+interface BatchReview {
+  files: string[];
+  rawContent: string;
+  review: StructuredReview | null;
+}
+
+interface GeneratedReview {
+  rawContent: string;
+  review: StructuredReview | null;
+  // Requested persona reviews that returned no valid result
+  missingPersonas?: string[];
+  // Set when the run budget stopped the review before it covered everything
+  incomplete?: string;
+}
+
 export class CodeReviewService {
   private openaiClient: OpenAIClient;
 
@@ -17,31 +138,123 @@ export class CodeReviewService {
     repoPath: string,
     branchChanges: any,
     outputPath?: string,
-    autoComment: boolean = false
-  ): Promise<{
-    decision: "PASS" | "FAIL";
-    criticalIssues: string[];
-    majorIssues: string[];
-    minorIssues: string[];
-    summary: string;
-    rawContent: string;
-  }> {
+    autoComment: boolean = false,
+    options: {
+      carriedIssues?: Issue[];
+      intent?: string;
+      // Persona names from REVIEW_PERSONAS; empty runs the generic review
+      personas?: string[];
+      // Independent reviews to vote on; 1 or unset reviews once
+      votes?: number;
+      // Share of votes a finding needs, defaults to review.agreement
+      agreement?: number;
+    } = {}
+  ): Promise<BranchReviewResult> {
     try {
       console.log("Starting enhanced branch review analysis...");
 
       const repoAnalysis = await analyzeRepository(repoPath);
+      const guidance = loadReviewGuidance(repoPath);
 
-      const reviewContent = await this.generateBranchReviewContent(
+      const staticIssues = runStaticChecks(
         repoPath,
-        repoAnalysis,
-        branchChanges
+        branchChanges.diffContent || "",
+        branchChanges.changedFiles,
+        (file) => readChangedFile(repoPath, branchChanges, file)
       );
+      if (staticIssues.length > 0) {
+        console.log(`🔎 Static pre-checks found ${staticIssues.length} issues`);
+      }
 
-      // Extract structured results from review content
-      const structuredResult = this.parseReviewContent(reviewContent);
+      const generate = (sample?: number) => {
+        const context = {
+          guidance,
+          staticIssues,
+          intent: options.intent,
+          sample,
+        };
+        return options.personas?.length
+          ? this.generatePersonaReviews(
+              repoPath,
+              repoAnalysis,
+              branchChanges,
+              context,
+              options.personas.map((name) => REVIEW_PERSONAS[name])
+            )
+          : this.generateBranchReviewContent(
+              repoPath,
+              repoAnalysis,
+              branchChanges,
+              context
+            );
+      };
+      const { rawContent, review, votes, missingPersonas, incomplete } =
+        options.votes && options.votes > 1
+          ? await this.generateVotedReview(
+              options.votes,
+              options.agreement ??
+                getConfig().review?.agreement ??
+                DEFAULT_AGREEMENT,
+              generate
+            )
+          : { ...(await generate()), votes: undefined };
+      if (!review && missingPersonas?.length) {
+        throw new InvalidReviewError(
+          "No persona review returned a valid result"
+        );
+      }
+
+      if (!review) {
+        // Scraping an unparseable reply would default to PASS; keep it for
+        // debugging and fail the run instead
+        if (outputPath) {
+          this.saveRawReviewContent(rawContent, outputPath, "branch-review");
+        }
+        throw new InvalidReviewError(
+          "The model did not return a valid structured review"
+        );
+      }
+
+      const report = toReviewReport(
+        review,
+        repoPath,
+        branchChanges.changedFiles.length
+      );
+      if (votes) report.votes = votes;
+      if (missingPersonas?.length) report.missingPersonas = missingPersonas;
+      if (incomplete) report.incomplete = incomplete;
+      if (options.intent && review.intentCheck) {
+        report.intentCheck = {
+          message: options.intent,
+          ...review.intentCheck,
+        };
+      }
+      report.issues = mergeStaticFindings(report.issues, staticIssues);
+      recountIssues(report);
+      attributeRuleFindings(report, guidance.rules);
+      if (options.carriedIssues?.length) {
+        this.addCarriedFindings(report, options.carriedIssues);
+      }
+      this.filterSuppressedFindings(
+        repoPath,
+        report,
+        branchChanges.changedFiles.map((file: any) => file.file),
+        (file) => readChangedFile(repoPath, branchChanges, file)
+      );
+      const structuredResult = this.buildReviewResult(report, rawContent);
 
       if (outputPath) {
-        this.saveRawReviewContent(reviewContent, outputPath, "branch-review");
+        this.saveRawReviewContent(
+          renderReviewMarkdown(report),
+          outputPath,
+          "branch-review"
+        );
+        this.saveRawReviewContent(
+          JSON.stringify(report, null, 2),
+          outputPath,
+          "branch-review",
+          "json"
+        );
       }
 
       if (autoComment) {
@@ -66,101 +279,680 @@ export class CodeReviewService {
 
       return structuredResult;
     } catch (error) {
+      if (
+        error instanceof BudgetExceededError ||
+        error instanceof InvalidReviewError
+      ) {
+        throw error;
+      }
       console.error("Error performing branch review:", error);
       throw new Error(`Branch code review failed: ${error}`);
     }
   }
 
+  /**
+   * Runs `runs` independent reviews, at most review.concurrency at a time,
+   * and keeps what enough of them agree on (see voteOnReviews). Votes whose
+   * reply fails validation, or that miss a requested persona, still count
+   * towards the total; the review fails outright when too few are valid
+   * for any agreement to be reached.
+   */
+  private async generateVotedReview(
+    runs: number,
+    agreement: number,
+    generate: (sample?: number) => Promise<GeneratedReview>
+  ): Promise<GeneratedReview & { votes?: ReviewVotes }> {
+    const concurrency =
+      getConfig().review?.concurrency || DEFAULT_REVIEW_CONCURRENCY;
+    console.log(
+      `Running ${runs} independent reviews, ${concurrency} at a time...`
+    );
+
+    const results = await mapWithConcurrency(
+      Array.from({ length: runs }, (_, index) => index),
+      concurrency,
+      async (sample) => {
+        let result: GeneratedReview;
+        try {
+          result = await runWithLedgerFile(
+            `review vote ${sample + 1}/${runs}`,
+            () => generate(sample)
+          );
+        } catch (error) {
+          // Keep the votes that finished before the budget ran out
+          if (!(error instanceof BudgetExceededError)) throw error;
+          console.log(
+            `⚠️  Vote ${sample + 1}/${runs} stopped: ${error.message}`
+          );
+          return { rawContent: "", review: null, incomplete: error.message };
+        }
+        // A vote that skipped a persona did not review everything asked for
+        if (result.missingPersonas?.length) result.review = null;
+        console.log(
+          result.review
+            ? `Vote ${sample + 1}/${runs}: ${result.review.decision}, ${
+                result.review.issues.length
+              } findings`
+            : `⚠️  Vote ${
+                sample + 1
+              }/${runs} did not return a valid review and supports no finding`
+        );
+        return result;
+      }
+    );
+
+    const rawContent = results
+      .map(
+        (result, index) =>
+          `## Vote ${index + 1}/${runs}\n\n${result.rawContent}`
+      )
+      .join("\n\n");
+    const reviews = results.flatMap(({ review }) => (review ? [review] : []));
+    const required = minimumValidVotes(runs, agreement);
+    if (reviews.length < required && isBudgetExceeded()) {
+      throw new BudgetExceededError(
+        `Run budget exhausted with ${reviews.length} of ${runs} votes complete; ${required} are needed`
+      );
+    }
+    if (reviews.length < required) {
+      throw new Error(
+        `Only ${
+          reviews.length
+        } of ${runs} votes returned a valid review; ${required} are needed to reach ${Math.round(
+          agreement * 100
+        )}% agreement`
+      );
+    }
+
+    const { review, votes } = voteOnReviews(reviews, agreement, runs);
+    console.log(
+      `Votes: ${votes.failVotes}/${votes.runs} FAIL, ${
+        votes.invalidVotes
+      } invalid, ${votes.droppedFindings} findings below ${Math.round(
+        agreement * 100
+      )}% agreement dropped`
+    );
+    return {
+      rawContent,
+      review,
+      votes,
+      incomplete: results.some((result) => result.incomplete)
+        ? "the run budget ran out before every vote finished"
+        : undefined,
+    };
+  }
+
+  /**
+   * Runs one focused review per persona over the same changes, at most
+   * review.concurrency at a time, and merges them. A persona whose reply
+   * fails validation is left out of the merge and returned as missing, so
+   * the review is not treated as complete.
+   */
+  private async generatePersonaReviews(
+    repoPath: string,
+    analysis: RepositoryAnalysis,
+    branchChanges: any,
+    context: ReviewPromptContext,
+    personas: ReviewPersona[]
+  ): Promise<GeneratedReview> {
+    const concurrency =
+      getConfig().review?.concurrency || DEFAULT_REVIEW_CONCURRENCY;
+    console.log(
+      `Running ${personas.length} persona reviews (${personas
+        .map((persona) => persona.name)
+        .join(", ")}), ${concurrency} at a time...`
+    );
+
+    const results = await mapWithConcurrency(
+      personas,
+      concurrency,
+      async (persona) => {
+        let result: GeneratedReview;
+        try {
+          result = await runWithLedgerFile(`${persona.name} review`, () =>
+            this.generateBranchReviewContent(
+              repoPath,
+              analysis,
+              branchChanges,
+              { ...context, persona }
+            )
+          );
+        } catch (error) {
+          // Keep the personas that finished before the budget ran out
+          if (!(error instanceof BudgetExceededError)) throw error;
+          console.log(`⚠️  ${persona.title} review stopped: ${error.message}`);
+          return {
+            persona,
+            rawContent: "",
+            review: null,
+            budgetExceeded: true,
+          };
+        }
+        console.log(
+          result.review
+            ? `${persona.title} review: ${result.review.decision}, ${result.review.issues.length} findings`
+            : `⚠️  ${persona.title} review did not return a valid result; its concerns were not assessed`
+        );
+        return { persona, ...result, budgetExceeded: !!result.incomplete };
+      }
+    );
+    if (results.every(({ review }) => !review) && isBudgetExceeded()) {
+      throw new BudgetExceededError(
+        "Run budget exhausted before any persona review finished"
+      );
+    }
+
+    const rawContent = results
+      .map(
+        (result) => `## ${result.persona.title} Review\n\n${result.rawContent}`
+      )
+      .join("\n\n");
+    const reviewed = results.flatMap(({ persona, review }) =>
+      review ? [{ persona, review }] : []
+    );
+    const missingPersonas = results
+      .filter(({ review }) => !review)
+      .map(({ persona }) => persona.name);
+    return {
+      rawContent,
+      review: reviewed.length > 0 ? mergePersonaReviews(reviewed) : null,
+      missingPersonas,
+      incomplete: results.some(({ budgetExceeded }) => budgetExceeded)
+        ? "the run budget ran out before every persona review finished"
+        : undefined,
+    };
+  }
+
   private async generateBranchReviewContent(
     repoPath: string,
     analysis: RepositoryAnalysis,
-    branchChanges: any
-  ): Promise<string> {
-    const newFiles = branchChanges.changedFiles.filter(
-      (file: any) => file.isNew
+    branchChanges: any,
+    context: ReviewPromptContext
+  ): Promise<GeneratedReview> {
+    const persona = context.persona;
+    const systemInstruction = `${
+      persona
+        ? persona.role
+        : "You are a senior code reviewer with 10+ years of experience."
+    } Your role is to provide a PASS/FAIL decision with detailed analysis.
+
+RESPONSE FORMAT REQUIRED:
+Respond with a single JSON object and nothing else, matching this schema:
+${REVIEW_JSON_SCHEMA}
+
+SEVERITY:
+- critical: security vulnerabilities, breaking changes, critical bugs, production blockers
+- major: performance problems, poor code quality, missing tests or documentation; should fix before merge
+- minor: style, naming, small optimizations, comments; can fix after merge
+
+EVALUATION CRITERIA:
+- **PASS**: No critical issues, acceptable quality for production
+- **FAIL**: Has critical security/functionality/breaking change issues
+
+IMPORTANT:
+- Use an empty "issues" array when nothing is wrong
+- Only list ACTUAL issues found, not category descriptions
+- Give the file path and line number of every issue; put the fix in "suggestion"
+
+${
+  persona
+    ? `FOCUS:
+Review only for these concerns; other reviewers cover everything else, so do not report unrelated style or quality findings:
+${persona.focus.map((item) => `- ${item}`).join("\n")}
+
+Base the decision on these concerns alone.`
+    : "Focus on production readiness and code quality standards."
+}`;
+
+    const batchTokens =
+      getConfig().review?.batchTokens || DEFAULT_REVIEW_BATCH_TOKENS;
+    const overhead =
+      countTokens(systemInstruction) +
+      countTokens(
+        this.buildBranchReviewPrompt(
+          repoPath,
+          analysis,
+          branchChanges,
+          context,
+          []
+        )
+      );
+    const contentBudget = Math.max(
+      batchTokens - overhead,
+      MIN_BATCH_CONTENT_TOKENS
     );
-    const modifiedFiles = branchChanges.changedFiles.filter(
-      (file: any) => !file.isNew
+
+    const sections = this.buildFileSections(
+      repoPath,
+      branchChanges,
+      contentBudget
+    );
+    const batches = packIntoBatches(
+      sections,
+      (section) => countTokens(this.renderFileSection(section)),
+      contentBudget
     );
 
-    const newFileContents: any = {};
-    const modifiedFileContents: any = {};
-    for (const file of newFiles) {
+    // Small branches keep the single-pass review
+    if (batches.length <= 1) {
+      return await this.requestStructuredReview(
+        this.buildBranchReviewPrompt(
+          repoPath,
+          analysis,
+          branchChanges,
+          context,
+          batches[0] || []
+        ),
+        systemInstruction,
+        context.sample
+      );
+    }
+
+    console.log(
+      `Branch exceeds one request (~${batchTokens} tokens); reviewing in ${batches.length} batches...`
+    );
+
+    const batchReviews: BatchReview[] = [];
+    for (const [index, batch] of batches.entries()) {
+      const label = `${persona ? `${persona.name} ` : ""}review batch ${
+        index + 1
+      }/${batches.length}`;
+      const files = [...new Set(batch.map((section) => section.file))];
+      console.log(`Reviewing ${label} (${files.length} files)...`);
+
       try {
-        const fullPath = join(repoPath, file.file);
-        if (existsSync(fullPath)) {
-          const content = readFileSync(fullPath, "utf8");
-          newFileContents[file.file] = content;
-        }
+        const { rawContent, review } = await runWithLedgerFile(label, () =>
+          this.requestStructuredReview(
+            this.buildBranchReviewPrompt(
+              repoPath,
+              analysis,
+              branchChanges,
+              context,
+              batch,
+              {
+                index: index + 1,
+                total: batches.length,
+              }
+            ),
+            systemInstruction,
+            context.sample
+          )
+        );
+        batchReviews.push({ files, rawContent, review });
       } catch (error) {
-        console.warn(`Could not read new file ${file.file}:`, error);
+        // Batches already paid for become a partial review
+        if (
+          !(error instanceof BudgetExceededError) ||
+          batchReviews.every((batch) => !batch.review)
+        ) {
+          throw error;
+        }
+        console.warn(
+          `⚠️  ${error.message}; keeping the batches reviewed so far`
+        );
+        return {
+          ...this.mergeBatchReviews(batchReviews),
+          incomplete: `the run budget ran out after ${index} of ${batches.length} review batches`,
+        };
+      }
+    }
+
+    // Nothing to synthesize or merge; the caller fails the run rather than
+    // passing an empty review
+    if (batchReviews.every((batch) => !batch.review)) {
+      console.warn(
+        `None of the ${batchReviews.length} review batches returned a valid review`
+      );
+      return {
+        rawContent: batchReviews.map((batch) => batch.rawContent).join("\n\n"),
+        review: null,
+      };
+    }
+
+    console.log("Synthesizing batch reviews...");
+    let synthesis: GeneratedReview;
+    try {
+      synthesis = await runWithLedgerFile(
+        `${persona ? `${persona.name} ` : ""}review synthesis`,
+        () =>
+          this.requestStructuredReview(
+            this.buildSynthesisPrompt(branchChanges, batchReviews),
+            systemInstruction,
+            context.sample
+          )
+      );
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      console.warn(`⚠️  ${error.message}; merging batch reviews as-is`);
+      return {
+        ...this.mergeBatchReviews(batchReviews),
+        incomplete:
+          "the run budget ran out before the batch reviews were synthesized",
+      };
+    }
+    if (synthesis.review) {
+      return synthesis;
+    }
+
+    // Keep the batch findings rather than losing them to a bad synthesis
+    console.warn("Synthesis failed validation; merging batch reviews as-is");
+    return {
+      ...this.mergeBatchReviews(batchReviews),
+      rawContent: synthesis.rawContent,
+    };
+  }
+
+  private mergeBatchReviews(batchReviews: BatchReview[]): GeneratedReview {
+    return {
+      rawContent: batchReviews.map((batch) => batch.rawContent).join("\n\n"),
+      review: mergeStructuredReviews(
+        batchReviews
+          .map((batch) => batch.review)
+          .filter((review): review is StructuredReview => !!review)
+      ),
+    };
+  }
+
+  /**
+   * Turns every changed file into prompt sections: the full content of new
+   * and modified files, plus the diff of modified files. Anything that would
+   * not fit in one batch is split on line boundaries instead of truncated.
+   */
+  private buildFileSections(
+    repoPath: string,
+    branchChanges: any,
+    maxTokens: number
+  ): ReviewFileSection[] {
+    const fileDiffs = splitDiffByFile(branchChanges.diffContent || "");
+    const sections: ReviewFileSection[] = [];
+
+    // Leaves room for the section heading and code fences
+    const partTokens = Math.max(maxTokens - 200, 1);
+
+    for (const file of branchChanges.changedFiles) {
+      const base = {
+        file: file.file,
+        isNew: !!file.isNew,
+        insertions: file.insertions || 0,
+        deletions: file.deletions || 0,
+      };
+
+      const content = readChangedFile(repoPath, branchChanges, file.file);
+
+      if (content !== null) {
+        const numbered = numberLines(content);
+        const totalLines = content.split("\n").length;
+        const whole: ReviewFileSection = {
+          ...base,
+          kind: "content",
+          text: numbered,
+        };
+
+        if (countTokens(this.renderFileSection(whole)) <= maxTokens) {
+          sections.push(whole);
+        } else {
+          splitByTokens(numbered, partTokens).forEach((range) =>
+            sections.push({
+              ...base,
+              kind: "content",
+              text: range.text,
+              part: `lines ${range.startLine}-${range.endLine} of ${totalLines}`,
+            })
+          );
+        }
+      } else if (file.isNew && !branchChanges.diffOnly) {
+        sections.push({
+          ...base,
+          kind: "content",
+          text: "Content not available",
+        });
+      }
+
+      // A patch carries new files only as added lines in its diff
+      if (!file.isNew || content === null) {
+        const diff = fileDiffs[file.file] || "No diff available";
+        const whole: ReviewFileSection = { ...base, kind: "diff", text: diff };
+
+        if (countTokens(this.renderFileSection(whole)) <= maxTokens) {
+          sections.push(whole);
+        } else {
+          const ranges = splitByTokens(diff, partTokens);
+          ranges.forEach((range, index) =>
+            sections.push({
+              ...base,
+              kind: "diff",
+              text: range.text,
+              part: `diff part ${index + 1} of ${ranges.length}`,
+            })
+          );
+        }
       }
     }
 
-    for (const file of modifiedFiles) {
+    return sections;
+  }
+
+  private renderFileSection(section: ReviewFileSection): string {
+    const stats = section.isNew
+      ? `(+${section.insertions} lines)`
+      : `(+${section.insertions} -${section.deletions})`;
+    const heading = `### ${section.file} ${stats}${
+      section.part ? ` - ${section.part}` : ""
+    }`;
+
+    if (section.kind === "diff") {
+      return `${heading}
+**Changes in this file:**
+\`\`\`diff
+${section.text}
+\`\`\``;
+    }
+
+    return `${heading}${section.isNew ? "" : "\n**Current File Content:**"}
+\`\`\`
+${section.text}
+\`\`\``;
+  }
+
+  /**
+   * Second pass over batch results: the model sees only the findings, not the
+   * code, so this stays small regardless of branch size.
+   */
+  private buildSynthesisPrompt(
+    branchChanges: any,
+    batchReviews: BatchReview[]
+  ): string {
+    const batches = batchReviews
+      .map((batch, index) => {
+        const header = `### Batch ${index + 1}\nFiles: ${batch.files.join(
+          ", "
+        )}`;
+        if (!batch.review) {
+          return `${header}\nThis batch did not return a valid review; its files were not assessed.`;
+        }
+        return `${header}
+Decision: ${batch.review.decision}
+Summary: ${batch.review.summary}
+Assessment: ${batch.review.overallAssessment}
+Findings:
+\`\`\`json
+${JSON.stringify(
+  {
+    issues: batch.review.issues,
+    suggestions: batch.review.suggestions,
+    intentCheck: batch.review.intentCheck,
+  },
+  null,
+  2
+)}
+\`\`\``;
+      })
+      .join("\n\n");
+
+    return `The branch ${branchChanges.currentBranch} (compared to ${
+      branchChanges.baseBranch
+    }) was too large for one request, so its ${
+      branchChanges.changedFiles.length
+    } changed files were reviewed in ${
+      batchReviews.length
+    } batches. Consolidate the batch reviews below into the final review of the whole branch.
+
+## Batch Reviews:
+
+${batches}
+
+## Instructions:
+1. Merge findings that describe the same problem at the same place into one entry; keep the most severe severity and the clearest description
+2. Keep every other finding with its original file, line, severity and category; do not invent findings that no batch reported
+3. Merge and deduplicate the suggestions
+4. Decide PASS or FAIL for the whole branch using the decision framework: FAIL if any critical issue remains
+5. Write "summary" and "overallAssessment" for the branch as a whole, not per batch
+${
+  batchReviews.some((batch) => batch.review?.intentCheck)
+    ? `6. Combine the batches' "intentCheck" into one for the whole change: "matches" is false if any batch found a mismatch\n`
+    : ""
+}
+Respond with the JSON object described in the system instructions.`;
+  }
+
+  /**
+   * Asks for the review as JSON and validates it. Invalid replies get a repair
+   * turn in the same conversation listing the validation errors, so the model
+   * fixes its own output without the branch being re-sent.
+   */
+  private async requestStructuredReview(
+    prompt: string,
+    systemInstruction: string,
+    sample?: number
+  ): Promise<{ rawContent: string; review: StructuredReview | null }> {
+    const conversation = this.openaiClient.startConversation(systemInstruction);
+    let rawContent = await conversation.send(prompt, {
+      jsonMode: true,
+      sample,
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      let errors: string[];
       try {
-        const fullPath = join(repoPath, file.file);
-        if (existsSync(fullPath)) {
-          const content = readFileSync(fullPath, "utf8");
-          modifiedFileContents[file.file] = content;
+        const validation = validateStructuredReview(extractJson(rawContent));
+        if (validation.valid) {
+          return { rawContent, review: validation.review };
         }
+        errors = validation.errors;
       } catch (error) {
-        console.warn(`Could not read modified file ${file.file}:`, error);
+        errors = [error instanceof Error ? error.message : String(error)];
       }
+
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        console.warn(
+          `Review JSON still invalid after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${errors.join(
+            "; "
+          )}`
+        );
+        return { rawContent, review: null };
+      }
+
+      console.log("Review JSON failed validation, asking for a repair...");
+      rawContent = await conversation.send(
+        `Your previous response is not valid against the required schema:\n${errors
+          .map((error) => `- ${error}`)
+          .join(
+            "\n"
+          )}\n\nReturn the corrected review as a single JSON object matching the schema, with no other text.`,
+        { jsonMode: true, sample }
+      );
     }
+  }
 
-    const prompt = this.buildBranchReviewPrompt(
+  // Hides findings covered by inline ignore directives or the baseline
+  private filterSuppressedFindings(
+    repoPath: string,
+    report: ReviewReport,
+    reviewedFiles: string[],
+    readContent: (file: string) => string | null
+  ): ReviewReport {
+    const ignored = applySuppressionDirectives(
       repoPath,
-      analysis,
-      branchChanges,
-      newFileContents,
-      modifiedFileContents
+      report,
+      reviewedFiles,
+      readContent
     );
-    const systemInstruction = `You are a senior code reviewer with 10+ years of experience. Your role is to provide a PASS/FAIL decision with detailed analysis.
-
-                                  RESPONSE FORMAT REQUIRED:
-                                  ## REVIEW DECISION: [PASS/FAIL]
-                                  
-                                  ## CRITICAL ISSUES:
-                                  🔴 **CRITICAL** - [If any critical issues exist, list them here. If none, write "None."]
-                                  
-                                  ## MAJOR ISSUES:
-                                  🟡 **MAJOR** - [If any major issues exist, list them here. If none, write "None."]
-                                  
-                                  ## MINOR ISSUES:
-                                  🔵 **MINOR** - [If any minor issues exist, list them here. If none, write "None."]
-                                  
-                                  ## DETAILED ANALYSIS:
-                                  
-                                  ### NEW FILES:
-                                  [Comprehensive review of new files]
-                                  
-                                  ### MODIFIED FILES:
-                                  [Focused review on changes and their impact]
-                                  
-                                  ## ACTIONABLE SOLUTIONS:
-                                  [Specific code fixes and improvements]
-                                  
-                                  EVALUATION CRITERIA:
-                                  - **PASS**: No critical issues, acceptable quality for production
-                                  - **FAIL**: Has critical security/functionality/breaking change issues
-                                  
-                                  IMPORTANT: 
-                                  - If there are NO issues in a category, write "None." 
-                                  - Only list ACTUAL issues found, not category descriptions
-                                  - Be specific with file names and line numbers when possible
-                                  
-                                  Focus on production readiness and code quality standards.`;
-
-    return await this.openaiClient.generateContent(prompt, systemInstruction);
+    if (ignored > 0) {
+      console.log(`🙈 ${ignored} findings suppressed by inline directives`);
+    }
+
+    const baselined = applyBaseline(repoPath, report, readContent);
+    if (baselined > 0) {
+      console.log(`🧊 ${baselined} known findings matched the baseline`);
+    }
+
+    if (ignored + baselined === 0) return report;
+
+    // The model's FAIL was driven by critical findings that are now accepted
+    const suppressedCritical = (report.suppressedIssues || []).some(
+      ({ issue }) => issue.severity === "critical"
+    );
+    if (report.criticalIssues === 0 && suppressedCritical) {
+      report.decision = "PASS";
+    }
+
+    return report;
+  }
+
+  /**
+   * Adds findings carried over from the last incremental review. The model
+   * sees whole files, so it may report an old finding again; its new
+   * finding on the same line replaces the carried one.
+   */
+  private addCarriedFindings(report: ReviewReport, carried: Issue[]): void {
+    const reported = new Set(
+      report.issues.map((issue) => `${issue.file}|${issue.line}`)
+    );
+    report.issues.push(
+      ...carried.filter((issue) => !reported.has(`${issue.file}|${issue.line}`))
+    );
+    recountIssues(report);
+  }
+
+  private buildReviewResult(
+    report: ReviewReport,
+    rawContent: string
+  ): BranchReviewResult {
+    const linesFor = (severity: Issue["severity"]) => [
+      ...new Set(
+        report.issues
+          .filter((issue) => issue.severity === severity)
+          .map(formatIssueLine)
+      ),
+    ];
+
+    // Any critical finding fails the review, whatever the model decided
+    const decision =
+      report.criticalIssues > 0 ? "FAIL" : report.decision || "PASS";
+    report.decision = decision;
+
+    const criticalIssues = linesFor("critical");
+    const majorIssues = linesFor("warning");
+    const minorIssues = linesFor("info");
+
+    return {
+      decision,
+      criticalIssues,
+      majorIssues,
+      minorIssues,
+      summary: `${decision}: ${criticalIssues.length} critical, ${majorIssues.length} major, ${minorIssues.length} minor issues found`,
+      rawContent,
+      report,
+    };
   }
 
   private buildBranchReviewPrompt(
     repoPath: string,
     analysis: RepositoryAnalysis,
     branchChanges: any,
-    newFileContents: any,
-    modifiedFileContents: any
+    context: ReviewPromptContext,
+    sections: ReviewFileSection[],
+    batch?: { index: number; total: number }
   ): string {
     const newFiles = branchChanges.changedFiles.filter(
       (file: any) => file.isNew
@@ -168,6 +960,17 @@ export class CodeReviewService {
     const modifiedFiles = branchChanges.changedFiles.filter(
       (file: any) => !file.isNew
     );
+    const newSections = sections.filter((section) => section.isNew);
+    // Without sections (sizing the fixed prompt) assume every file is in
+    const promptFiles: string[] =
+      sections.length > 0
+        ? sections.map((section) => section.file)
+        : branchChanges.changedFiles.map((file: any) => file.file);
+    const guidancePrompt = renderGuidancePrompt(context.guidance, promptFiles);
+    const staticIssues = context.staticIssues.filter((issue) =>
+      promptFiles.includes(issue.file)
+    );
+    const modifiedSections = sections.filter((section) => !section.isNew);
 
     return `Please perform a comprehensive code review of this branch with focus on BOTH new files and modified files:
 
@@ -190,74 +993,60 @@ export class CodeReviewService {
                 - Lines Added: ${branchChanges.totalInsertions}
                 - Lines Removed: ${branchChanges.totalDeletions}
 
-                ## NEW FILES (Full Review Required):
                 ${
-                  newFiles.length > 0
-                    ? newFiles
-                        .map(
-                          (file: any) =>
-                            `### ${file.file} (+${file.insertions || 0} lines)
-                ${
-                  newFileContents[file.file]
-                    ? `\`\`\`\n${newFileContents[file.file].substring(
-                        0,
-                        200000
-                      )}\n${
-                        newFileContents[file.file].length > 200000
-                          ? "... (truncated)\n"
-                          : ""
-                      }\`\`\``
-                    : "Content not available"
-                }
+                  batch
+                    ? `## Batch ${batch.index} of ${batch.total}:
+                This branch is reviewed in batches. Review only the files in this batch and base the decision on them; other files are covered by other batches.
+
                 `
-                        )
-                        .join("\n")
+                    : ""
+                }File contents are prefixed with their line numbers ("12: code"). Use those numbers for "line".
+
+                ## NEW FILES (Full Review Required):
+                ${
+                  newSections.length > 0
+                    ? newSections
+                        .map((section) => this.renderFileSection(section))
+                        .join("\n\n")
                     : "None"
                 }
 
                 ## MODIFIED FILES (Change Review Required):
                 ${
-                  modifiedFiles.length > 0
-                    ? modifiedFiles
-                        .map(
-                          (file: any) =>
-                            `### ${file.file} (+${file.insertions || 0} -${
-                              file.deletions || 0
-                            })
-                ${
-                  modifiedFileContents[file.file]
-                    ? `**Current File Content:**
-                \`\`\`
-                ${modifiedFileContents[file.file].substring(0, 100000)}${
-                        modifiedFileContents[file.file].length > 100000
-                          ? "\n... (truncated for length)"
-                          : ""
-                      }
-                \`\`\`
-
-                **Changes in this file:**
-                \`\`\`diff
-                ${file.diff || "No diff available"}
-                \`\`\``
-                    : "Content not available"
-                }
-                `
-                        )
-                        .join("\n")
+                  modifiedSections.length > 0
+                    ? modifiedSections
+                        .map((section) => this.renderFileSection(section))
+                        .join("\n\n")
                     : "None"
                 }
 
-                ## Diff Changes:
-                \`\`\`diff
-                ${branchChanges.diffContent.substring(0, 3000)}
                 ${
-                  branchChanges.diffContent.length > 3000
-                    ? "\n... (truncated for brevity)"
+                  guidancePrompt
+                    ? `${guidancePrompt}
+
+                `
                     : ""
-                }
-                \`\`\`
+                }${
+      staticIssues.length > 0
+        ? `## Automated Pre-check Findings:
+                Static analysis already reported these; they are added to the review automatically. Do not repeat them.
+${staticIssues
+  .map((issue) => `- ${formatIssueLine(issue)} [${issue.rule}]`)
+  .join("\n")}
+
+                `
+        : ""
+    }${
+      context.intent
+        ? `## Commit Message (stated intent):
+\`\`\`
+${context.intent.trim()}
+\`\`\`
+                Check whether the change does what this message says. Add "intentCheck": {"matches": boolean, "explanation": string} to the JSON. Set "matches" to false when the message misdescribes the change, leaves out significant changes or claims changes that are not there.
 
-                ## Review Requirements:
+                `
+        : ""
+    }## Review Requirements:
 
                 **MANDATORY REVIEW CRITERIA (must evaluate for PASS/FAIL):**
 
@@ -301,11 +1090,12 @@ export class CodeReviewService {
                 - **FAIL**: One or more critical issues that block safe deployment
 
                 **REQUIRED OUTPUT:**
-                1. Clear PASS/FAIL decision with reasoning
-                2. Categorized issues by severity (🔴🟡🔵)
-                3. Specific line numbers and code snippets for each issue
-                4. Actionable solutions with code examples where possible
-                5. Priority order for fixing issues
+                Respond with the JSON object described in the system instructions:
+                1. Clear PASS/FAIL decision, with reasoning in "overallAssessment"
+                2. One entry in "issues" per finding, with its severity and category
+                3. Specific file paths and line numbers for each issue
+                4. Actionable solutions with code examples in "suggestion"
+                5. Issues ordered by fixing priority
 
                 Provide detailed, actionable feedback that enables immediate issue resolution.`;
   }
@@ -313,10 +1103,13 @@ export class CodeReviewService {
   private saveRawReviewContent(
     content: string,
     outputPath: string,
-    prefix: string
+    prefix: string,
+    extension: string = "md"
   ): void {
     try {
-      const fileName = `${prefix}-${new Date().toISOString().split("T")[0]}.md`;
+      const fileName = `${prefix}-${
+        new Date().toISOString().split("T")[0]
+      }.${extension}`;
       const filePath = join(outputPath, fileName);
 
       mkdirSync(dirname(filePath), { recursive: true });
@@ -331,9 +1124,11 @@ export class CodeReviewService {
 
   public async autoCommentChangedCode(
     repoPath: string,
-    branchChanges: any
-  ): Promise<any[]> {
-    const results: any[] = [];
+    branchChanges: any,
+    options: { dryRun?: boolean } = {}
+  ): Promise<AutoCommentResult[]> {
+    const results: AutoCommentResult[] = [];
+    const fileDiffs = splitDiffByFile(branchChanges.diffContent || "");
 
     const codeFiles = branchChanges.changedFiles.filter((file: any) =>
       file.file.match(/\.(js|ts|jsx|tsx|py|java|go|rs|php|rb|cpp|c|h)$/)
@@ -348,6 +1143,9 @@ export class CodeReviewService {
         results.push({
           file: fileInfo.file,
           success: false,
+          commentsAdded: 0,
+          commentsRejected: 0,
+          isNew: fileInfo.isNew,
           error: "File not found",
         });
         continue;
@@ -359,45 +1157,87 @@ export class CodeReviewService {
         );
 
         const fileContent = readFileSync(filePath, "utf8");
-
-        const fileDiff = fileInfo.diff || "";
-
-        const commentedCode = await this.generateSmartComments(
-          fileInfo.file,
-          fileContent,
-          fileDiff,
-          fileInfo.isNew
-        );
-
-        if (
-          commentedCode.content !== fileContent &&
-          commentedCode.commentsAdded > 0
-        ) {
-          writeFileSync(filePath, commentedCode.content);
-          console.log(
-            `   ✅ Added ${commentedCode.commentsAdded} comments to ${fileInfo.file}`
-          );
-
+        const fileDiff = fileDiffs[fileInfo.file] || "";
+
+        // Comments go on the lines this change added; all lines of a new file
+        const changedLines = fileDiff
+          ? getChangedLinesFromDiff(fileDiff)
+              .filter((line) => line.type === "added")
+              .map((line) => line.lineNumber)
+          : fileInfo.isNew
+          ? fileContent.split("\n").map((_, index) => index + 1)
+          : [];
+        if (changedLines.length === 0) {
+          console.log(`   ℹ️  No added lines to comment in ${fileInfo.file}`);
           results.push({
             file: fileInfo.file,
-            commentsAdded: commentedCode.commentsAdded,
             success: true,
+            commentsAdded: 0,
+            commentsRejected: 0,
             isNew: fileInfo.isNew,
           });
+          continue;
+        }
+
+        const proposed = await runWithLedgerFile(fileInfo.file, () =>
+          this.generateSmartComments(
+            fileInfo.file,
+            fileContent,
+            changedLines,
+            fileInfo.isNew
+          )
+        );
+
+        const changed = new Set(changedLines);
+        const anchored = proposed.filter((insertion) =>
+          changed.has(insertion.line)
+        );
+        const insertion = insertComments(fileInfo.file, fileContent, anchored);
+        const rejected = proposed.length - insertion.applied.length;
+
+        const result: AutoCommentResult = {
+          file: fileInfo.file,
+          success: true,
+          commentsAdded: insertion.applied.length,
+          commentsRejected: rejected,
+          isNew: fileInfo.isNew,
+        };
+
+        if (insertion.applied.length > 0) {
+          if (options.dryRun) {
+            result.diff = renderInsertionDiff(
+              fileInfo.file,
+              fileContent,
+              insertion.content
+            );
+          } else {
+            writeFileSync(filePath, insertion.content);
+            console.log(
+              `   ✅ Added ${insertion.applied.length} comments to ${fileInfo.file}`
+            );
+          }
         } else {
           console.log(`   ℹ️  No new comments needed for ${fileInfo.file}`);
-          results.push({
-            file: fileInfo.file,
-            commentsAdded: 0,
-            success: true,
-            isNew: fileInfo.isNew,
-          });
         }
+        if (rejected > 0) {
+          console.log(
+            `   ⚠️  Dropped ${rejected} comments that were off the changed lines or would have altered code`
+          );
+        }
+
+        results.push(result);
       } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          console.log(`   ⚠️  ${error.message}; skipping remaining files`);
+          break;
+        }
         console.log(`   ❌ Error commenting ${fileInfo.file}: ${error}`);
         results.push({
           file: fileInfo.file,
           success: false,
+          commentsAdded: 0,
+          commentsRejected: 0,
+          isNew: fileInfo.isNew,
           error: error instanceof Error ? error.message : String(error),
         });
       }
@@ -406,229 +1246,85 @@ export class CodeReviewService {
     return results;
   }
 
+  /**
+   * Asks the model where comments would help and what they should say. The
+   * model never returns code, only insertions anchored to line numbers, so
+   * it cannot alter or truncate the file.
+   */
   private async generateSmartComments(
     fileName: string,
     fileContent: string,
-    fileDiff: string,
+    changedLines: number[],
     isNewFile: boolean
-  ): Promise<{ content: string; commentsAdded: number; preview: string }> {
+  ): Promise<CommentInsertion[]> {
     const fileType = getFileType(fileName);
 
-    const prompt = `As a senior developer reviewer, analyze and enhance this ${fileType} code with strategic comments and improvement suggestions.
-
-                      FILE: ${fileName}
-                      TYPE: ${isNewFile ? "NEW FILE" : "MODIFIED FILE"}
-
-                      ${
-                        isNewFile
-                          ? "FULL NEW FILE CONTENT:"
-                          : "CHANGES MADE (Git Diff):"
-                      }
-                      ${
-                        isNewFile
-                          ? `\`\`\`${fileType.toLowerCase()}\n${fileContent}\n\`\`\``
-                          : `\`\`\`diff\n${fileDiff}\n\`\`\``
-                      }
-
-                      ${
-                        !isNewFile
-                          ? `\nFULL FILE CONTEXT:\n\`\`\`${fileType.toLowerCase()}\n${fileContent}\n\`\`\``
-                          : ""
-                      }
-
-                      SENIOR REVIEWER GUIDELINES:
-                      
-                      **PRIORITY 1 - Critical Issues (Flag for Review)**:
-                      - Security vulnerabilities (input validation, authentication)
-                      - Performance bottlenecks (expensive operations, memory leaks)
-                      - Error handling gaps (uncaught exceptions, null checks)
-                      - Breaking changes or compatibility issues
-                      
-                      **PRIORITY 2 - Quality Improvements**:
-                      - Complex business logic explanations
-                      - Non-obvious implementation decisions
-                      - Integration points and dependencies
-                      - Code maintainability suggestions
-                      
-                      **PRIORITY 3 - Developer Guidance**:
-                      - Testing recommendations with specific test cases
-                      - Documentation gaps (JSDoc, function contracts)
-                      - Code style and best practice suggestions
-                      - Performance optimization opportunities
-                      
-                      **COMMENT TYPES TO ADD**:
-                      - \`// CRITICAL: [Security/Performance/Error issue]\`
-                      - \`// TODO: Add unit tests for [specific scenarios]\`
-                      - \`// REVIEW: Consider [alternative approach]\`
-                      - \`// DOCS: Add JSDoc/docstring explaining [purpose/params]\`
-                      - \`// PERF: Optimize [specific operation]\`
-                      - \`// SECURITY: Validate [input/authorization]\`
-                      
-                      **OUTPUT REQUIREMENTS**:
-                      1. Return the COMPLETE file with strategic comments added
-                      2. Focus on NEW/CHANGED code only
-                      3. Use appropriate syntax for ${fileType}
-                      4. Prioritize actionable, specific feedback
-                      5. Include line-specific improvement suggestions
-                      
-                      Make the code more maintainable and help junior developers understand complex logic.`;
-
-    const systemInstruction = `You are a senior software engineer and code reviewer with 15+ years of experience. Your role is to enhance code quality through strategic commenting and identification of improvement opportunities.
-
-RESPONSE REQUIREMENTS:
-1. Return the COMPLETE file with added comments
-2. Focus on critical issues, quality improvements, and developer guidance
-3. Use appropriate comment syntax for the file type
-4. Prioritize actionable feedback over general observations
-5. Help junior developers understand complex logic and best practices
-
-EVALUATION PRIORITIES:
-- Security and performance issues (highest priority)
-- Code maintainability and best practices
-- Testing and documentation gaps
-- Developer learning opportunities
-
-Provide meaningful, strategic comments that improve code quality and team knowledge transfer.`;
+    const prompt = `As a senior developer reviewer, choose where strategic comments would help in this ${fileType} code and write them.
 
-    try {
-      const response = await this.openaiClient.generateContent(
-        prompt,
-        systemInstruction
-      );
+FILE: ${fileName}
+TYPE: ${isNewFile ? "NEW FILE" : "MODIFIED FILE"}
 
-      const extractedCode = extractCodeFromResponse(response, fileType);
+## File Content:
+Each line is prefixed with its line number; the prefix is not part of the file.
+\`\`\`${fileType.toLowerCase()}
+${numberLines(fileContent)}
+\`\`\`
 
-      return {
-        content: extractedCode || fileContent,
-        commentsAdded: extractedCode && extractedCode !== fileContent ? 1 : 0,
-        preview: `Added strategic comments to ${fileName}`,
-      };
-    } catch (error) {
-      console.warn(`Failed to generate AI comments for ${fileName}:`, error);
-    }
+## Lines Added by This Change:
+${this.formatLineRanges(changedLines)}
 
-    return {
-      content: fileContent,
-      commentsAdded: 0,
-      preview: `Could not generate comments for ${fileName}`,
-    };
-  }
+COMMENT GUIDELINES:
+- Comment only the added lines listed above
+- Explain WHY: business rules, non-obvious decisions, edge cases, integration points
+- Flag risks with a prefix: CRITICAL:, SECURITY:, PERF:, TODO:, REVIEW:
+- Do not restate what the code obviously does; skip lines that need no comment
 
-  private parseReviewContent(content: string): {
-    decision: "PASS" | "FAIL";
-    criticalIssues: string[];
-    majorIssues: string[];
-    minorIssues: string[];
-    summary: string;
-    rawContent: string;
-  } {
-    let decision: "PASS" | "FAIL" = "PASS";
-    const criticalIssues: string[] = [];
-    const majorIssues: string[] = [];
-    const minorIssues: string[] = [];
-    let summary = "";
-
-    // Extract decision - look for both formats
-    const decisionMatch =
-      content.match(/## REVIEW DECISION:\s*(PASS|FAIL)/i) ||
-      content.match(/Decision:\s*(PASS|FAIL)/i);
-    if (decisionMatch) {
-      decision = decisionMatch[1].toUpperCase() as "PASS" | "FAIL";
-    }
+RESPONSE FORMAT REQUIRED:
+Respond with a single JSON object and nothing else:
+{"comments": [{"line": <line number the comment goes above>, "comment": "<comment text without comment markers>"}]}
+Return {"comments": []} if no comments are needed.`;
 
-    // Extract critical issues - look for actual issue content, not headers
-    const criticalSection = content.match(
-      /🔴.*?Critical.*?Issues.*?\n(.*?)(?=🟡|🔵|##|$)/s
-    );
-    if (criticalSection) {
-      const issueText = criticalSection[1];
-      // Only extract if there's actual content (not just "None" or empty)
-      if (
-        issueText &&
-        !issueText.match(/^\s*(None|No critical issues)\s*\.?\s*$/i)
-      ) {
-        const issues = issueText.match(/(?:^|\n)\s*[-*]\s*(.+)/g);
-        if (issues) {
-          issues.forEach((issue) => {
-            const cleanIssue = issue.replace(/^[\n\s]*[-*]\s*/, "").trim();
-            if (
-              cleanIssue &&
-              !cleanIssue.match(/^(Location:|Details:|Actionable Solution:)/i)
-            ) {
-              criticalIssues.push(cleanIssue);
-            }
-          });
-        }
-      }
-    }
+    const systemInstruction = `You are a senior software engineer and code reviewer with 15+ years of experience. You add strategic comments that help other developers understand complex logic and spot risks.
 
-    // Extract major issues
-    const majorSection = content.match(
-      /.*?Major.*?Issues.*?\n(.*?)(?=🔴|🔵|##|$)/s
-    );
-    if (majorSection) {
-      const issueText = majorSection[1];
-      if (
-        issueText &&
-        !issueText.match(/^\s*(None|No major issues)\s*\.?\s*$/i)
-      ) {
-        // Look for actual issue titles, not just any bullet point
-        const issueBlocks = issueText.split(/\n(?=\w)/); // Split on lines that start with a word
-        issueBlocks.forEach((block) => {
-          const firstLine = block.split("\n")[0].trim();
-          if (
-            firstLine &&
-            !firstLine.match(/^(Location:|Details:|Actionable Solution:)/i) &&
-            !firstLine.includes("fix before merge") &&
-            firstLine.length > 10
-          ) {
-            // Avoid short generic text
-            majorIssues.push(firstLine);
-          }
-        });
-      }
-    }
+You never rewrite code. You only say which line each comment belongs above and what it says; the comment syntax and indentation are added for you.`;
 
-    // Extract minor issues
-    const minorSection = content.match(
-      /🔵.*?Minor.*?Issues.*?\n(.*?)(?=🔴|🟡|##|$)/s
+    const response = await this.openaiClient.generateContent(
+      prompt,
+      systemInstruction
     );
-    if (minorSection) {
-      const issueText = minorSection[1];
-      if (
-        issueText &&
-        !issueText.match(/^\s*(None|No minor issues)\s*\.?\s*$/i)
-      ) {
-        const issueBlocks = issueText.split(/\n(?=\w)/);
-        issueBlocks.forEach((block) => {
-          const firstLine = block.split("\n")[0].trim();
-          if (
-            firstLine &&
-            !firstLine.match(/^(Location:|Details:|Actionable Solution:)/i) &&
-            !firstLine.includes("fix after merge") &&
-            firstLine.length > 10
-          ) {
-            minorIssues.push(firstLine);
-          }
-        });
-      }
-    }
 
-    // If we have critical issues, it should be FAIL
-    if (criticalIssues.length > 0) {
-      decision = "FAIL";
+    let data: any;
+    try {
+      data = extractJson(response);
+    } catch (error) {
+      console.warn(`Failed to parse AI comments for ${fileName}: ${error}`);
+      return [];
     }
 
-    // Generate summary
-    summary = `${decision}: ${criticalIssues.length} critical, ${majorIssues.length} major, ${minorIssues.length} minor issues found`;
+    return (Array.isArray(data?.comments) ? data.comments : [])
+      .filter(
+        (entry: any) =>
+          entry &&
+          Number.isInteger(entry.line) &&
+          typeof entry.comment === "string"
+      )
+      .map((entry: any) => ({ line: entry.line, comment: entry.comment }));
+  }
 
-    return {
-      decision,
-      criticalIssues: [...new Set(criticalIssues)], // Remove duplicates
-      majorIssues: [...new Set(majorIssues)],
-      minorIssues: [...new Set(minorIssues)],
-      summary,
-      rawContent: content,
-    };
+  // "3-7, 12, 20-21" for the prompt
+  private formatLineRanges(lines: number[]): string {
+    const ranges: string[] = [];
+    let start = lines[0];
+    let previous = lines[0];
+    for (const line of [...lines.slice(1), Infinity]) {
+      if (line === previous + 1) {
+        previous = line;
+        continue;
+      }
+      ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+      start = line;
+      previous = line;
+    }
+    return ranges.join(", ");
   }
 }
@@ -0,0 +1,167 @@
+import { ReviewReport } from "../types";
+import { getGitHubConfig, GitHubConfig } from "../utils/config/config-manager";
+import { getRemoteRepositoryPath } from "../utils/git/git-info";
+import { mapIssuesToDiff } from "../utils/review/diff-mapping";
+import {
+  formatIssueComment,
+  formatReviewSummary,
+} from "../utils/review/comment-format";
+
+export type GitHubReviewEvent = "APPROVE" | "COMMENT" | "REQUEST_CHANGES";
+
+export interface GitHubReviewResult {
+  reviewId: number;
+  url?: string;
+  event: GitHubReviewEvent;
+  inlineComments: number;
+  summaryOnlyFindings: number;
+}
+
+interface GitHubReviewComment {
+  path: string;
+  line: number;
+  side: "RIGHT";
+  body: string;
+}
+
+// The fields this service reads from the REST responses
+interface GitHubPullRequest {
+  head: { sha: string };
+}
+
+interface GitHubReview {
+  id: number;
+  html_url?: string;
+}
+
+export class GitHubApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GitHubApiError";
+    this.status = status;
+  }
+}
+
+export class GitHubReviewService {
+  private config: GitHubConfig;
+
+  constructor(config: GitHubConfig = getGitHubConfig()) {
+    this.config = config;
+  }
+
+  /**
+   * Posts the report as a single pull request review: findings on added
+   * lines become inline comments, the rest are listed in the review body.
+   */
+  async postReview(
+    repoPath: string,
+    pullNumber: number,
+    report: ReviewReport,
+    diffContent: string
+  ): Promise<GitHubReviewResult> {
+    if (!this.config.token) {
+      throw new Error(
+        "GitHub token not found. Set GITHUB_TOKEN or github.token in .steelheart.json"
+      );
+    }
+
+    const repository =
+      this.config.repository || (await getRemoteRepositoryPath(repoPath));
+    if (!repository) {
+      throw new Error(
+        "Could not determine the GitHub repository. Set GITHUB_REPOSITORY or github.repository"
+      );
+    }
+
+    const pull = await this.request<GitHubPullRequest>(
+      "GET",
+      `/repos/${repository}/pulls/${pullNumber}`
+    );
+
+    const { inline, unmapped } = mapIssuesToDiff(report.issues, diffContent);
+    const comments: GitHubReviewComment[] = inline.map(
+      ({ issue, file, line }) => ({
+        path: file,
+        line,
+        side: "RIGHT",
+        body: formatIssueComment(issue),
+      })
+    );
+
+    let event = this.getReviewEvent(report);
+    const payload = {
+      commit_id: pull.head.sha,
+      body: formatReviewSummary(report, unmapped),
+      comments,
+    };
+
+    let review: GitHubReview;
+    try {
+      review = await this.request<GitHubReview>(
+        "POST",
+        `/repos/${repository}/pulls/${pullNumber}/reviews`,
+        { ...payload, event }
+      );
+    } catch (error: unknown) {
+      // GitHub rejects APPROVE/REQUEST_CHANGES on your own pull request and,
+      // by default, APPROVE from the Actions token; fall back to a comment
+      if (
+        !(error instanceof GitHubApiError) ||
+        error.status !== 422 ||
+        event === "COMMENT"
+      ) {
+        throw error;
+      }
+      event = "COMMENT";
+      review = await this.request<GitHubReview>(
+        "POST",
+        `/repos/${repository}/pulls/${pullNumber}/reviews`,
+        { ...payload, event }
+      );
+    }
+
+    return {
+      reviewId: review.id,
+      url: review.html_url,
+      event,
+      inlineComments: comments.length,
+      summaryOnlyFindings: unmapped.length,
+    };
+  }
+
+  private getReviewEvent(report: ReviewReport): GitHubReviewEvent {
+    if (report.decision === "FAIL") {
+      return "REQUEST_CHANGES";
+    }
+    return this.config.approveOnPass ? "APPROVE" : "COMMENT";
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method,
+      headers: {
+        accept: "application/vnd.github+json",
+        authorization: `Bearer ${this.config.token}`,
+        "content-type": "application/json",
+        "x-github-api-version": "2022-11-28",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new GitHubApiError(
+        `GitHub API error ${response.status}: ${text}`,
+        response.status
+      );
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,173 @@
+import { Issue, ReviewReport } from "../types";
+import { BranchChanges } from "../types/cli";
+import { getGitLabConfig, GitLabConfig } from "../utils/config/config-manager";
+import { getRemoteRepositoryPath } from "../utils/git/git-info";
+import { mapIssuesToDiff } from "../utils/review/diff-mapping";
+import {
+  formatIssueComment,
+  formatReviewSummary,
+} from "../utils/review/comment-format";
+
+export type GitLabCommitState = "success" | "failed";
+
+export interface GitLabReviewResult {
+  noteUrl?: string;
+  discussions: number;
+  summaryOnlyFindings: number;
+  commitState: GitLabCommitState;
+}
+
+// The fields this service reads from the REST responses
+interface GitLabDiscussion {
+  id: string;
+}
+
+interface GitLabNote {
+  id: number;
+  web_url?: string;
+}
+
+interface GitLabCommitStatus {
+  id: number;
+  status: string;
+}
+
+export class GitLabApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GitLabApiError";
+    this.status = status;
+  }
+}
+
+export class GitLabReviewService {
+  private config: GitLabConfig;
+
+  constructor(config: GitLabConfig = getGitLabConfig()) {
+    this.config = config;
+  }
+
+  /**
+   * Posts findings on added lines as positioned merge request discussions,
+   * then a summary note, then a commit status on the reviewed HEAD.
+   */
+  async postReview(
+    repoPath: string,
+    mergeRequestIid: number,
+    report: ReviewReport,
+    branchChanges: BranchChanges
+  ): Promise<GitLabReviewResult> {
+    if (!this.config.token) {
+      throw new Error(
+        "GitLab token not found. Set GITLAB_TOKEN or gitlab.token in .steelheart.json"
+      );
+    }
+
+    const { baseSha, startSha, headSha } = branchChanges;
+    if (!baseSha || !startSha || !headSha) {
+      throw new Error(
+        "Could not resolve the diff SHAs. Fetch the target branch (e.g. GIT_DEPTH: 0) and pass it with --base"
+      );
+    }
+
+    const project =
+      this.config.project || (await getRemoteRepositoryPath(repoPath));
+    if (!project) {
+      throw new Error(
+        "Could not determine the GitLab project. Set CI_PROJECT_ID or gitlab.project"
+      );
+    }
+    const projectPath = `/projects/${encodeURIComponent(project)}`;
+    const mergeRequestPath = `${projectPath}/merge_requests/${mergeRequestIid}`;
+
+    const { inline, unmapped } = mapIssuesToDiff(
+      report.issues,
+      branchChanges.diffContent
+    );
+
+    // A position GitLab cannot resolve is rejected; keep the finding in the
+    // summary note instead of dropping it
+    const rejected: Issue[] = [];
+    let discussions = 0;
+    for (const { issue, file, line } of inline) {
+      try {
+        await this.request<GitLabDiscussion>(
+          "POST",
+          `${mergeRequestPath}/discussions`,
+          {
+            body: formatIssueComment(issue),
+            position: {
+              position_type: "text",
+              base_sha: baseSha,
+              start_sha: startSha,
+              head_sha: headSha,
+              old_path: file,
+              new_path: file,
+              new_line: line,
+            },
+          }
+        );
+        discussions++;
+      } catch (error: unknown) {
+        if (!(error instanceof GitLabApiError) || error.status !== 400) {
+          throw error;
+        }
+        rejected.push(issue);
+      }
+    }
+
+    const note = await this.request<GitLabNote>(
+      "POST",
+      `${mergeRequestPath}/notes`,
+      {
+        body: formatReviewSummary(report, [...unmapped, ...rejected]),
+      }
+    );
+
+    const commitState: GitLabCommitState =
+      report.decision === "FAIL" ? "failed" : "success";
+    await this.request<GitLabCommitStatus>(
+      "POST",
+      `${projectPath}/statuses/${headSha}`,
+      {
+        state: commitState,
+        name: this.config.statusName,
+        description: report.summary.slice(0, 255),
+      }
+    );
+
+    return {
+      noteUrl: note.web_url,
+      discussions,
+      summaryOnlyFindings: unmapped.length + rejected.length,
+      commitState,
+    };
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method,
+      headers: {
+        "content-type": "application/json",
+        "private-token": this.config.token as string,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new GitLabApiError(
+        `GitLab API error ${response.status}: ${text}`,
+        response.status
+      );
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
@@ -1,12 +1,41 @@
-import OpenAI from "openai";
 import { readFileSync } from "fs";
 import { join } from "path";
 import * as dotenv from "dotenv";
-import { getConfig } from "../utils/config/config-manager";
+import {
+  getConfig,
+  getProviderConfig,
+  ProviderConfig,
+  ProviderType,
+} from "../utils/config/config-manager";
+import {
+  buildCacheKey,
+  getCachedResponse,
+  setCachedResponse,
+} from "../utils/cache/response-cache";
+import { markBudgetExceeded, recordUsage } from "../utils/usage/cost-ledger";
+import { BudgetExceededError, reserveBudget } from "../utils/usage/budget";
+import { countMessageTokens, countTokens } from "../utils/usage/tokens";
+import { ChatMessage, createProvider, LLMProvider } from "./providers";
 
 // Load environment variables
 dotenv.config({ path: join(process.cwd(), ".env") });
 
+// Cheapest sensible default per backend when `defaultModel` is not configured
+const DEFAULT_MODELS: Record<ProviderType, string> = {
+  openai: "gpt-4o-mini",
+  "azure-openai": "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  "openai-compatible": "llama3.1",
+};
+
+export interface GenerationOptions {
+  maxRetries?: number;
+  jsonMode?: boolean;
+  // Index of an independent sample of the same request; each sample gets
+  // its own cache entry instead of all replaying the first reply
+  sample?: number;
+}
+
 interface OpenAIConfig {
   apiKey: string;
   model?: string;
@@ -16,20 +45,28 @@ interface OpenAIConfig {
   maxRetries?: number;
   organization?: string;
   baseURL?: string;
+  provider: ProviderConfig;
 }
 
 export class OpenAIClient {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private config: OpenAIConfig;
 
   constructor(configPath?: string) {
     this.config = this.loadConfig(configPath);
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey,
-      organization: this.config.organization,
-      baseURL: this.config.baseURL,
-      maxRetries: this.config.maxRetries || 3,
-    });
+    this.provider = createProvider(
+      {
+        ...this.config.provider,
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL,
+        organization: this.config.organization,
+      },
+      this.config.maxRetries || 3
+    );
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
   }
 
   private loadConfig(configPath?: string): OpenAIConfig {
@@ -40,15 +77,22 @@ export class OpenAIClient {
       try {
         const configFile = readFileSync(configPath, "utf-8");
         const fileConfig = JSON.parse(configFile);
+        const provider = getProviderConfig(fileConfig);
         config = {
-          apiKey: fileConfig.apiKey || process.env.OPENAI_API_KEY,
-          model: fileConfig.model || fileConfig.defaultModel || "gpt-4o-mini",
-          fallbackModel: fileConfig.fallbackModel || "gpt-3.5-turbo",
+          apiKey: provider.apiKey || "",
+          model:
+            fileConfig.model ||
+            fileConfig.defaultModel ||
+            DEFAULT_MODELS[provider.type],
+          fallbackModel:
+            fileConfig.fallbackModel ||
+            (provider.type === "openai" ? "gpt-3.5-turbo" : undefined),
           temperature: fileConfig.temperature || 0.7,
           maxTokens: fileConfig.maxTokens || 4000,
           maxRetries: fileConfig.maxRetries || 3,
-          organization: fileConfig.organization || process.env.OPENAI_ORG_ID,
-          baseURL: fileConfig.baseURL || process.env.OPENAI_BASE_URL,
+          organization: fileConfig.organization || provider.organization,
+          baseURL: fileConfig.baseURL || provider.baseURL,
+          provider,
         };
       } catch (error) {
         console.warn("Could not load config file, using steelheart config");
@@ -58,9 +102,9 @@ export class OpenAIClient {
       config = this.getSteelheartConfig();
     }
 
-    if (!config.apiKey) {
+    if (!config.apiKey && config.provider.type !== "openai-compatible") {
       throw new Error(
-        "OpenAI API key not found! Please run 'st setup' to configure your API key, or set the OPENAI_API_KEY environment variable."
+        `API key for provider '${config.provider.type}' not found! Please run 'st setup' to configure your API key, or set the matching environment variable.`
       );
     }
 
@@ -70,16 +114,19 @@ export class OpenAIClient {
   private getSteelheartConfig(): OpenAIConfig {
     // Get configuration from steelheart config first, then fall back to env variables
     const steelheartConfig = getConfig();
+    const provider = getProviderConfig(steelheartConfig);
 
     return {
-      apiKey: steelheartConfig.apiKey || process.env.OPENAI_API_KEY || "",
-      model: steelheartConfig.defaultModel || "gpt-4o-mini",
-      fallbackModel: "gpt-3.5-turbo",
+      apiKey: provider.apiKey || "",
+      model: steelheartConfig.defaultModel || DEFAULT_MODELS[provider.type],
+      // The gpt-3.5-turbo fallback only exists on OpenAI itself
+      fallbackModel: provider.type === "openai" ? "gpt-3.5-turbo" : undefined,
       temperature: 0.7,
       maxTokens: 4000,
       maxRetries: 3,
-      organization: process.env.OPENAI_ORG_ID,
-      baseURL: process.env.OPENAI_BASE_URL,
+      organization: provider.organization,
+      baseURL: provider.baseURL,
+      provider,
     };
   }
 
@@ -93,6 +140,7 @@ export class OpenAIClient {
       maxRetries: 3,
       organization: process.env.OPENAI_ORG_ID,
       baseURL: process.env.OPENAI_BASE_URL,
+      provider: { type: "openai" },
     };
   }
 
@@ -100,16 +148,39 @@ export class OpenAIClient {
     prompt: string,
     systemInstruction?: string,
     maxRetries: number = 3
+  ): Promise<string> {
+    const messages: ChatMessage[] = [];
+
+    if (systemInstruction) {
+      messages.push({ role: "system", content: systemInstruction });
+    }
+
+    messages.push({ role: "user", content: prompt });
+
+    return await this.generateChat(messages, { maxRetries });
+  }
+
+  /**
+   * Sends a full conversation (system, user and prior assistant turns) and
+   * returns the assistant reply. Falls back to the secondary model on failure.
+   */
+  async generateChat(
+    messages: ChatMessage[],
+    options: GenerationOptions = {}
   ): Promise<string> {
     // First try with primary model
     try {
       return await this.generateWithModel(
-        prompt,
+        messages,
         this.config.model!,
-        maxRetries,
-        systemInstruction
+        options
       );
     } catch (primaryError) {
+      // A spent budget applies to every model, so don't try the fallback
+      if (primaryError instanceof BudgetExceededError) {
+        throw primaryError;
+      }
+
       console.warn(
         `Primary model (${this.config.model}) failed. Trying fallback model...`
       );
@@ -124,10 +195,9 @@ export class OpenAIClient {
             `Switching to fallback model: ${this.config.fallbackModel}`
           );
           return await this.generateWithModel(
-            prompt,
+            messages,
             this.config.fallbackModel,
-            maxRetries,
-            systemInstruction
+            options
           );
         } catch (fallbackError) {
           console.error(`Both primary and fallback models failed.`);
@@ -141,37 +211,87 @@ export class OpenAIClient {
     }
   }
 
+  startConversation(systemInstruction?: string): Conversation {
+    return new Conversation(this, systemInstruction);
+  }
+
   private async generateWithModel(
-    prompt: string,
+    messages: ChatMessage[],
     modelName: string,
-    maxRetries: number,
-    systemInstruction?: string
+    options: GenerationOptions
   ): Promise<string> {
     let lastError: any;
+    const maxRetries = options.maxRetries || 3;
+    const request = {
+      model: modelName,
+      messages,
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+      jsonMode: options.jsonMode,
+    };
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] =
-          [];
+    const cacheKey = buildCacheKey({
+      ...request,
+      provider: this.config.provider.type,
+      baseURL: this.config.baseURL,
+      sample: options.sample,
+    });
+    const cached = getCachedResponse(cacheKey);
+    if (cached) {
+      recordUsage({
+        model: cached.model,
+        promptTokens:
+          cached.usage?.promptTokens ?? countMessageTokens(messages),
+        completionTokens:
+          cached.usage?.completionTokens ?? countTokens(cached.content),
+        cached: true,
+        estimated: !cached.usage,
+      });
+      return cached.content;
+    }
 
-        // Add user message
-        messages.push({
-          role: "user",
-          content: prompt,
-        });
+    // Held until this request's usage is recorded, so concurrent requests
+    // see each other's worst case
+    let settleBudget: () => void;
+    try {
+      settleBudget = reserveBudget(
+        modelName,
+        countMessageTokens(messages),
+        this.config.maxTokens || 4000
+      );
+    } catch (error: any) {
+      markBudgetExceeded(error.message);
+      throw error;
+    }
 
-        const response = await this.openai.chat.completions.create({
-          model: modelName,
-          messages,
-          temperature: this.config.temperature,
-          max_tokens: this.config.maxTokens,
-        });
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await this.provider.complete(request);
 
-        const content = response.choices[0]?.message?.content;
+        const content = response.content;
         if (!content) {
-          throw new Error("No content received from OpenAI");
+          throw new Error(`No content received from ${this.provider.name}`);
         }
 
+        // Local servers often omit usage; fall back to counting locally
+        recordUsage({
+          model: response.model,
+          promptTokens:
+            response.usage?.promptTokens ?? countMessageTokens(messages),
+          completionTokens:
+            response.usage?.completionTokens ?? countTokens(content),
+          estimated: !response.usage,
+        });
+        settleBudget();
+
+        setCachedResponse({
+          key: cacheKey,
+          model: response.model,
+          content,
+          createdAt: new Date().toISOString(),
+          usage: response.usage,
+        });
+
         return content;
       } catch (error: any) {
         lastError = error;
@@ -203,6 +323,7 @@ export class OpenAIClient {
       }
     }
 
+    settleBudget();
     throw new Error(
       `Model ${modelName} failed after ${maxRetries} attempts: ${
         lastError.message || lastError
@@ -249,7 +370,7 @@ export class OpenAIClient {
     const prompt = this.buildAnalysisPrompt(repoPath, analysisType);
     const systemInstruction = this.getSystemInstruction(analysisType);
 
-    return await this.generateContent(prompt);
+    return await this.generateContent(prompt, systemInstruction);
   }
 
   private buildAnalysisPrompt(repoPath: string, analysisType: string): string {
@@ -274,8 +395,7 @@ export class OpenAIClient {
 
   // Utility method to estimate token usage for cost control
   estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length / 4);
+    return countTokens(text);
   }
 
   // Method to check if we're approaching token limits
@@ -297,4 +417,36 @@ export class OpenAIClient {
   }
 }
 
+/**
+ * A multi-turn exchange with the model. Each `send` appends the user turn and
+ * the assistant reply, so follow-up questions keep the earlier context.
+ */
+export class Conversation {
+  private client: OpenAIClient;
+  private messages: ChatMessage[] = [];
+
+  constructor(client: OpenAIClient, systemInstruction?: string) {
+    this.client = client;
+    if (systemInstruction) {
+      this.messages.push({ role: "system", content: systemInstruction });
+    }
+  }
+
+  async send(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const pending: ChatMessage[] = [
+      ...this.messages,
+      { role: "user", content: prompt },
+    ];
+    const reply = await this.client.generateChat(pending, options);
+
+    // Only record the turn once it succeeded so a failed call can be retried
+    this.messages = [...pending, { role: "assistant", content: reply }];
+    return reply;
+  }
+
+  getMessages(): ChatMessage[] {
+    return [...this.messages];
+  }
+}
+
 export default OpenAIClient;
@@ -0,0 +1,88 @@
+import { CompletionRequest, CompletionResult, LLMProvider } from "./types";
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  apiVersion?: string;
+}
+
+// The parts of a Messages API response this adapter reads
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+/**
+ * Adapter for the Anthropic Messages API. System turns are lifted into the
+ * top-level `system` field because the API rejects them inside `messages`.
+ * There is no JSON mode, so `jsonMode` relies on the prompt asking for JSON.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private options: AnthropicProviderOptions;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.options = options;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const messages = request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({ role: message.role, content: message.content }));
+
+    const baseURL = (
+      this.options.baseURL || "https://api.anthropic.com"
+    ).replace(/\/+$/, "");
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": this.options.apiKey,
+        "anthropic-version": this.options.apiVersion || "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens || 4000,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      // Expose the HTTP status so OpenAIClient's retry logic can inspect it
+      throw Object.assign(
+        new Error(`Anthropic API error ${response.status}: ${body}`),
+        { status: response.status }
+      );
+    }
+
+    const data = (await response.json()) as AnthropicMessageResponse;
+    const content = (data.content || [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text || "")
+      .join("");
+
+    return {
+      content: content || null,
+      model: data.model || request.model,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.input_tokens || 0,
+            completionTokens: data.usage.output_tokens || 0,
+            totalTokens:
+              (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0),
+          }
+        : undefined,
+    };
+  }
+}
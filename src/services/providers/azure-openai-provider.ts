@@ -0,0 +1,30 @@
+import { AzureOpenAI } from "openai";
+import { OpenAIProvider } from "./openai-provider";
+
+export interface AzureOpenAIProviderOptions {
+  apiKey: string;
+  endpoint: string;
+  apiVersion?: string;
+  deployment?: string;
+  maxRetries?: number;
+}
+
+/**
+ * Adapter for Azure OpenAI. Requests are routed to a deployment rather than a
+ * model name, so `deployment` falls back to the requested model when omitted.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  constructor(options: AzureOpenAIProviderOptions) {
+    super(
+      { apiKey: options.apiKey },
+      "azure-openai",
+      new AzureOpenAI({
+        apiKey: options.apiKey,
+        endpoint: options.endpoint,
+        apiVersion: options.apiVersion || "2024-06-01",
+        deployment: options.deployment,
+        maxRetries: options.maxRetries || 3,
+      })
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { ProviderConfig } from "../../utils/config/config-manager";
+import { LLMProvider } from "./types";
+import { OpenAIProvider } from "./openai-provider";
+import { AzureOpenAIProvider } from "./azure-openai-provider";
+import { AnthropicProvider } from "./anthropic-provider";
+
+export * from "./types";
+export { OpenAIProvider } from "./openai-provider";
+export { AzureOpenAIProvider } from "./azure-openai-provider";
+export { AnthropicProvider } from "./anthropic-provider";
+
+export const createProvider = (
+  config: ProviderConfig,
+  maxRetries?: number
+): LLMProvider => {
+  switch (config.type) {
+    case "azure-openai":
+      if (!config.baseURL) {
+        throw new Error(
+          "Azure OpenAI requires an endpoint. Set provider.baseURL in .steelheart.json or AZURE_OPENAI_ENDPOINT."
+        );
+      }
+      return new AzureOpenAIProvider({
+        apiKey: config.apiKey || "",
+        endpoint: config.baseURL,
+        apiVersion: config.apiVersion,
+        deployment: config.deployment,
+        maxRetries,
+      });
+    case "anthropic":
+      return new AnthropicProvider({
+        apiKey: config.apiKey || "",
+        baseURL: config.baseURL,
+        apiVersion: config.apiVersion,
+      });
+    case "openai-compatible":
+      if (!config.baseURL) {
+        throw new Error(
+          "OpenAI-compatible providers require provider.baseURL (e.g. http://localhost:11434/v1 for Ollama)."
+        );
+      }
+      return new OpenAIProvider(
+        {
+          // Local servers usually ignore the key, but the SDK requires one
+          apiKey: config.apiKey || "not-needed",
+          baseURL: config.baseURL,
+          maxRetries,
+        },
+        "openai-compatible"
+      );
+    case "openai":
+    default:
+      return new OpenAIProvider({
+        apiKey: config.apiKey || "",
+        baseURL: config.baseURL,
+        organization: config.organization,
+        maxRetries,
+      });
+  }
+};
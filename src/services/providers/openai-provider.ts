@@ -0,0 +1,57 @@
+import OpenAI from "openai";
+import { ProviderType } from "../../utils/config/config-manager";
+import { CompletionRequest, CompletionResult, LLMProvider } from "./types";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  organization?: string;
+  maxRetries?: number;
+}
+
+/**
+ * Adapter for the OpenAI API. Also serves OpenAI-compatible local servers
+ * (Ollama, llama.cpp, vLLM) which expose the same /v1/chat/completions route.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: ProviderType;
+  protected client: OpenAI;
+
+  constructor(
+    options: OpenAIProviderOptions,
+    name: ProviderType = "openai",
+    client?: OpenAI
+  ) {
+    this.name = name;
+    this.client =
+      client ||
+      new OpenAI({
+        apiKey: options.apiKey,
+        organization: options.organization,
+        baseURL: options.baseURL,
+        maxRetries: options.maxRetries || 3,
+      });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.jsonMode ? { type: "json_object" } : undefined,
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      model: response.model || request.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+}
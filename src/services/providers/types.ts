@@ -0,0 +1,38 @@
+import { ProviderType } from "../../utils/config/config-manager";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the backend to emit a single JSON object (OpenAI "JSON mode")
+  jsonMode?: boolean;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  model: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * A chat completion backend. Adapters translate the provider-neutral request
+ * into the vendor's wire format and back, so services never see vendor SDKs.
+ */
+export interface LLMProvider {
+  readonly name: ProviderType;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
@@ -3,6 +3,8 @@ import { BranchChanges } from "../types/cli";
 import { getBranchChanges } from "../utils";
 import { extractCodeFromResponse, getFileType } from "../utils/code-extraction";
 import { analyzeRepository } from "../utils/repository-analyzer";
+import { runWithLedgerFile } from "../utils/usage/cost-ledger";
+import { BudgetExceededError } from "../utils/usage/budget";
 import { OpenAIClient } from "./openai-client";
 import { writeFileSync, existsSync, mkdirSync, readFileSync } from "fs";
 import { join, dirname, extname, resolve } from "path";
@@ -292,20 +294,34 @@ describe('Sample Test Suite', () => {
       });
 
       const testResults = [];
+      let budgetExceeded = false;
       for (const file of codeFiles) {
         console.log(`\nGenerating tests for: ${file.file}`);
 
         try {
-          const testResult = await this.generateTestForFile(
-            repoPath,
-            file,
-            branchChanges,
-            baseBranch,
-            outputPath,
-            testSetup
+          const testResult = await runWithLedgerFile(file.file, () =>
+            this.generateTestForFile(
+              repoPath,
+              file,
+              branchChanges,
+              baseBranch,
+              outputPath,
+              testSetup
+            )
           );
           testResults.push(testResult);
         } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            // Keep the tests already written and skip the remaining files
+            console.warn(`⚠️  ${error.message}`);
+            console.warn(
+              `Stopping test generation; ${
+                codeFiles.length - testResults.length
+              } files skipped`
+            );
+            budgetExceeded = true;
+            break;
+          }
           console.error(`Error generating test for ${file.file}:`, error);
           testResults.push({
             file: file.file,
@@ -336,6 +352,7 @@ describe('Sample Test Suite', () => {
         totalFiles: testResults.length,
         results: testResults,
         testSetup: testSetup,
+        budgetExceeded,
       };
     } catch (error) {
       console.error("Error generating tests:", error);
@@ -25,6 +25,15 @@ export interface BranchChanges {
   totalDeletions: number;
   totalChanges: number;
   includeUncommitted: boolean;
+  // Diff refs in GitLab terms: merge base, base branch tip and HEAD.
+  // Unset when the fallback analysis is used.
+  baseSha?: string;
+  startSha?: string;
+  headSha?: string;
+  // Commit to read file contents from instead of the working tree
+  contentRef?: string;
+  // Set for patch input: no file contents, only the diff
+  diffOnly?: boolean;
 }
 
 export interface FileChanges {
@@ -1,5 +1,6 @@
 export interface ReviewReport {
   repositoryUrl: string;
+  decision?: "PASS" | "FAIL";
   issues: Array<Issue>;
   suggestions: Array<Suggestion>;
   overallAssessment: string;
@@ -9,6 +10,58 @@ export interface ReviewReport {
   warningIssues: number;
   infoIssues: number;
   commentResults?: CommentResult[];
+  // Findings hidden from the report, kept so they can be listed separately
+  suppressedIssues?: SuppressedIssue[];
+  // Inline ignore directives that matched no finding in this review
+  unusedDirectives?: SuppressionDirective[];
+  // Set when a commit was reviewed against its message
+  intentCheck?: IntentCheck;
+  // Set when the review was decided by several independent runs
+  votes?: ReviewVotes;
+  // Requested persona reviews that returned no valid result
+  missingPersonas?: string[];
+  // Why the review stopped before covering everything; findings are partial
+  incomplete?: string;
+}
+
+export interface ReviewVotes {
+  // Votes requested; invalid ones count towards it but support nothing
+  runs: number;
+  invalidVotes: number;
+  // Share of runs a finding needed to be kept
+  threshold: number;
+  failVotes: number;
+  droppedFindings: number;
+}
+
+export interface IntentCheck {
+  message: string;
+  matches: boolean;
+  explanation: string;
+}
+
+export interface SuppressedIssue {
+  issue: Issue;
+  source: "baseline" | "directive";
+}
+
+export interface SuppressionDirective {
+  file: string;
+  // Line of the directive comment itself
+  line: number;
+  scope: "next-line" | "file";
+  // Categories or rule ids; empty means every finding
+  targets: string[];
+}
+
+export interface BranchReviewResult {
+  decision: "PASS" | "FAIL";
+  criticalIssues: string[];
+  majorIssues: string[];
+  minorIssues: string[];
+  summary: string;
+  rawContent: string;
+  report: ReviewReport;
 }
 
 export interface CommentResult {
@@ -28,6 +81,17 @@ export interface Issue {
   description: string;
   suggestion?: string;
   rule?: string;
+  title?: string;
+  // Stable identity across runs, see utils/review/baseline
+  fingerprint?: string;
+  // "static" for built-in pre-checks, "ai" for model findings
+  source?: "ai" | "static";
+  // Set on findings kept from an earlier incremental review: its HEAD SHA
+  carriedFrom?: string;
+  // Reviewer personas that reported the finding, see utils/review/personas
+  personas?: string[];
+  // Share of independent review runs that reported it, see utils/review/voting
+  confidence?: number;
 }
 
 export interface Suggestion {
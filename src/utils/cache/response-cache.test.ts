@@ -0,0 +1,142 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildCacheKey,
+  CacheKeyInput,
+  CacheSettings,
+  clearCache,
+  getCachedResponse,
+  getCacheStats,
+  pruneCache,
+  setCachedResponse,
+} from "./response-cache";
+
+const input: CacheKeyInput = {
+  provider: "openai",
+  messages: [{ role: "user", content: "Review this diff" }],
+  model: "gpt-4o-mini",
+  temperature: 0.7,
+  maxTokens: 4000,
+};
+
+const entry = (key: string, content = "reply") => ({
+  key,
+  model: "gpt-4o-mini",
+  content,
+  createdAt: new Date().toISOString(),
+});
+
+describe("buildCacheKey", () => {
+  it("is stable for the same request", () => {
+    expect(buildCacheKey({ ...input })).toBe(buildCacheKey(input));
+  });
+
+  it("separates providers and endpoints", () => {
+    const key = buildCacheKey(input);
+
+    expect(buildCacheKey({ ...input, provider: "openai-compatible" })).not.toBe(
+      key
+    );
+    expect(
+      buildCacheKey({ ...input, baseURL: "http://localhost:11434/v1" })
+    ).not.toBe(key);
+    expect(
+      buildCacheKey({ ...input, baseURL: "http://localhost:11434/v1" })
+    ).not.toBe(buildCacheKey({ ...input, baseURL: "http://gpu-box:8000/v1" }));
+  });
+
+  it("separates samples, including sample 0", () => {
+    const keys = [undefined, 0, 1].map((sample) =>
+      buildCacheKey({ ...input, sample })
+    );
+
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  it("separates JSON mode from plain text", () => {
+    expect(buildCacheKey({ ...input, jsonMode: true })).not.toBe(
+      buildCacheKey(input)
+    );
+  });
+});
+
+describe("cache storage", () => {
+  let dir: string;
+  let settings: CacheSettings;
+
+  beforeEach(() => {
+    dir = join(mkdtempSync(join(tmpdir(), "steelheart-cache-")), "cache");
+    settings = {
+      enabled: true,
+      dir,
+      ttlMs: 60 * 60 * 1000,
+      maxSizeBytes: 1024 * 1024,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(join(dir, ".."), { recursive: true, force: true });
+  });
+
+  it("returns a stored response", () => {
+    const key = buildCacheKey(input);
+    setCachedResponse(entry(key), settings);
+
+    expect(getCachedResponse(key, settings)?.content).toBe("reply");
+  });
+
+  it("misses when disabled", () => {
+    const key = buildCacheKey(input);
+    setCachedResponse(entry(key), settings);
+
+    expect(getCachedResponse(key, { ...settings, enabled: false })).toBeNull();
+  });
+
+  it("drops an expired response", () => {
+    const key = buildCacheKey(input);
+    setCachedResponse(
+      { ...entry(key), createdAt: new Date(0).toISOString() },
+      settings
+    );
+
+    expect(getCachedResponse(key, settings)).toBeNull();
+    expect(getCacheStats(settings).entries).toBe(0);
+  });
+
+  it("evicts the oldest entries over the size limit", () => {
+    const oldKey = buildCacheKey({ ...input, sample: 1 });
+    const newKey = buildCacheKey({ ...input, sample: 2 });
+    setCachedResponse(entry(oldKey, "x".repeat(600)), settings);
+    const past = new Date(Date.now() - 60 * 1000);
+    utimesSync(join(dir, `${oldKey}.json`), past, past);
+    setCachedResponse(entry(newKey, "y".repeat(600)), settings);
+
+    pruneCache({ ...settings, maxSizeBytes: 1000 });
+
+    expect(getCachedResponse(oldKey, settings)).toBeNull();
+    expect(getCachedResponse(newKey, settings)).not.toBeNull();
+  });
+
+  it("clears only cache entries and keeps other files", () => {
+    setCachedResponse(entry(buildCacheKey(input)), settings);
+    writeFileSync(join(dir, "notes.json"), "{}");
+
+    expect(clearCache(settings)).toBe(1);
+    expect(readdirSync(dir)).toEqual(["notes.json"]);
+  });
+
+  it("removes the directory once it is empty", () => {
+    setCachedResponse(entry(buildCacheKey(input)), settings);
+
+    expect(clearCache(settings)).toBe(1);
+    expect(existsSync(dir)).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { getConfig } from "../config/config-manager";
+
+export interface CacheKeyInput {
+  // Backend and endpoint, so the same model name on two servers never
+  // shares entries
+  provider: string;
+  baseURL?: string;
+  messages: Array<{ role: string; content: string }>;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  sample?: number;
+}
+
+export interface CachedResponse {
+  key: string;
+  model: string;
+  content: string;
+  createdAt: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  dir: string;
+  ttlMs: number;
+  maxSizeBytes: number;
+}
+
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  expiredEntries: number;
+  sizeBytes: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_SIZE_MB = 100;
+
+// Set by `--no-cache` for the current process only
+let runtimeDisabled = false;
+
+export const disableResponseCache = (): void => {
+  runtimeDisabled = true;
+};
+
+export const getCacheSettings = (): CacheSettings => {
+  const cache = getConfig().cache || {};
+
+  return {
+    enabled:
+      !runtimeDisabled &&
+      cache.enabled !== false &&
+      process.env.STEELHEART_NO_CACHE !== "1",
+    dir: cache.dir || join(homedir(), ".steelheart", "cache"),
+    ttlMs: (cache.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+    maxSizeBytes: (cache.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+  };
+};
+
+export const buildCacheKey = (input: CacheKeyInput): string => {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        messages: input.messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        provider: input.provider,
+        baseURL: input.baseURL ?? null,
+        model: input.model,
+        temperature: input.temperature ?? null,
+        maxTokens: input.maxTokens ?? null,
+        // Only part of the key when set so plain-text entries stay valid
+        ...(input.jsonMode ? { jsonMode: true } : {}),
+        ...(input.sample !== undefined ? { sample: input.sample } : {}),
+      })
+    )
+    .digest("hex");
+};
+
+const entryPath = (dir: string, key: string): string =>
+  join(dir, `${key}.json`);
+
+// Only files named after a cache key; anything else in the directory is
+// not ours to prune or delete
+const ENTRY_NAME = /^[0-9a-f]{64}\.json$/;
+
+const listEntries = (
+  dir: string
+): Array<{ path: string; size: number; mtimeMs: number }> => {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((name) => ENTRY_NAME.test(name))
+    .map((name) => {
+      const path = join(dir, name);
+      const stats = statSync(path);
+      return { path, size: stats.size, mtimeMs: stats.mtimeMs };
+    });
+};
+
+export const getCachedResponse = (
+  key: string,
+  settings: CacheSettings = getCacheSettings()
+): CachedResponse | null => {
+  if (!settings.enabled) return null;
+
+  const path = entryPath(settings.dir, key);
+  if (!existsSync(path)) return null;
+
+  try {
+    const entry: CachedResponse = JSON.parse(readFileSync(path, "utf8"));
+    if (Date.now() - new Date(entry.createdAt).getTime() > settings.ttlMs) {
+      unlinkSync(path);
+      return null;
+    }
+    return entry;
+  } catch {
+    // A corrupt entry is just a miss; it will be overwritten on the next store
+    return null;
+  }
+};
+
+export const setCachedResponse = (
+  entry: CachedResponse,
+  settings: CacheSettings = getCacheSettings()
+): void => {
+  if (!settings.enabled) return;
+
+  try {
+    mkdirSync(settings.dir, { recursive: true });
+    writeFileSync(entryPath(settings.dir, entry.key), JSON.stringify(entry));
+    pruneCache(settings);
+  } catch (error) {
+    console.warn("Could not write response cache entry:", error);
+  }
+};
+
+// Evicts expired entries, then the oldest ones until under the size limit
+export const pruneCache = (
+  settings: CacheSettings = getCacheSettings()
+): number => {
+  const now = Date.now();
+  let removed = 0;
+  let entries = listEntries(settings.dir);
+
+  for (const entry of entries) {
+    if (now - entry.mtimeMs > settings.ttlMs) {
+      unlinkSync(entry.path);
+      removed++;
+    }
+  }
+
+  entries = listEntries(settings.dir).sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const entry of entries) {
+    if (totalSize <= settings.maxSizeBytes) break;
+    unlinkSync(entry.path);
+    totalSize -= entry.size;
+    removed++;
+  }
+
+  return removed;
+};
+
+export const clearCache = (
+  settings: CacheSettings = getCacheSettings()
+): number => {
+  const entries = listEntries(settings.dir);
+  entries.forEach((entry) => unlinkSync(entry.path));
+  if (existsSync(settings.dir) && readdirSync(settings.dir).length === 0) {
+    rmdirSync(settings.dir);
+  }
+  return entries.length;
+};
+
+export const getCacheStats = (
+  settings: CacheSettings = getCacheSettings()
+): CacheStats => {
+  const now = Date.now();
+  const entries = listEntries(settings.dir);
+  const times = entries.map((entry) => entry.mtimeMs);
+
+  return {
+    dir: settings.dir,
+    entries: entries.length,
+    expiredEntries: entries.filter(
+      (entry) => now - entry.mtimeMs > settings.ttlMs
+    ).length,
+    sizeBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    oldest: times.length ? new Date(Math.min(...times)) : undefined,
+    newest: times.length ? new Date(Math.max(...times)) : undefined,
+  };
+};
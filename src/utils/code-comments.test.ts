@@ -0,0 +1,125 @@
+import {
+  codeTokens,
+  COMMENT_SYNTAX,
+  insertComments,
+  renderInsertionDiff,
+} from "./code-comments";
+
+const lines = (...text: string[]): string => text.join("\n");
+
+describe("insertComments", () => {
+  it("inserts above the line with its indentation and comment syntax", () => {
+    const result = insertComments(
+      "app.ts",
+      lines("function run() {", "  return load();", "}"),
+      [{ line: 2, comment: "Loads the cached value" }]
+    );
+
+    expect(result.content).toBe(
+      lines(
+        "function run() {",
+        "  // Loads the cached value",
+        "  return load();",
+        "}"
+      )
+    );
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("uses # for Python and strips markers the model added", () => {
+    const result = insertComments("app.py", lines("def run():", "    go()"), [
+      { line: 2, comment: "# Starts the job\n# twice" },
+    ]);
+
+    expect(result.content).toBe(
+      lines("def run():", "    # Starts the job", "    # twice", "    go()")
+    );
+  });
+
+  it("rejects insertions inside a multi-line string", () => {
+    const insertion = { line: 2, comment: "Not code" };
+    const content = lines("const sql = `", "SELECT 1", "`;");
+
+    expect(insertComments("app.js", content, [insertion])).toEqual({
+      content,
+      applied: [],
+      rejected: [insertion],
+    });
+  });
+
+  it("rejects insertions after a line continuation", () => {
+    const content = lines("#define MAX(a, b) \\", "  ((a) > (b) ? (a) : (b))");
+
+    expect(
+      insertComments("max.cpp", content, [{ line: 2, comment: "Larger" }])
+        .applied
+    ).toEqual([]);
+  });
+
+  it("rejects insertions between JSX tags", () => {
+    const content = lines("return (", "  <div>", "    <Item />", "  </div>");
+
+    expect(
+      insertComments("view.tsx", content, [{ line: 3, comment: "One item" }])
+        .rejected
+    ).toHaveLength(1);
+  });
+
+  it("rejects out-of-range lines and empty comments, keeping the rest", () => {
+    const result = insertComments("app.js", lines("a();", "b();"), [
+      { line: 0, comment: "Before the file" },
+      { line: 3, comment: "After the file" },
+      { line: 1, comment: "//" },
+      { line: 2, comment: "Runs b" },
+    ]);
+
+    expect(result.applied).toEqual([{ line: 2, comment: "Runs b" }]);
+    expect(result.rejected).toHaveLength(3);
+    expect(result.content).toBe(lines("a();", "// Runs b", "b();"));
+  });
+
+  it("leaves files without a known comment syntax alone", () => {
+    const insertion = { line: 1, comment: "Note" };
+
+    expect(insertComments("data.csv", "a,b", [insertion])).toEqual({
+      content: "a,b",
+      applied: [],
+      rejected: [insertion],
+    });
+  });
+});
+
+describe("codeTokens", () => {
+  it("drops comments but keeps comment markers inside strings", () => {
+    expect(
+      codeTokens(
+        lines('const url = "http://x"; // note', "/* block */ call();"),
+        COMMENT_SYNTAX.JavaScript
+      )
+    ).toEqual(["const", "url", "=", '"http://x";', "call();"]);
+  });
+});
+
+describe("renderInsertionDiff", () => {
+  it("renders inserted lines as one hunk with context", () => {
+    const original = lines("a();", "b();", "c();", "");
+    const updated = lines("a();", "// Runs b", "b();", "c();", "");
+
+    expect(renderInsertionDiff("app.js", original, updated)).toBe(
+      lines(
+        "--- a/app.js",
+        "+++ b/app.js",
+        "@@ -1,3 +1,4 @@",
+        " a();",
+        "+// Runs b",
+        " b();",
+        " c();",
+        ""
+      )
+    );
+  });
+
+  it("is empty when nothing was inserted", () => {
+    expect(renderInsertionDiff("app.js", "a();\n", "a();\n")).toBe("");
+  });
+});
@@ -0,0 +1,317 @@
+import { getFileType } from "./code-extraction";
+
+export interface CommentSyntax {
+  line: string[];
+  block?: [string, string];
+  // String delimiters, longest first
+  strings: string[];
+  // Delimiters whose literals may span lines
+  multilineStrings: string[];
+}
+
+// Keyed by the language names returned by getFileType
+export const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  TypeScript: {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    multilineStrings: ["`"],
+  },
+  JavaScript: {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    multilineStrings: ["`"],
+  },
+  Java: {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ['"""', '"', "'"],
+    multilineStrings: ['"""'],
+  },
+  Go: {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ["`", '"', "'"],
+    multilineStrings: ["`"],
+  },
+  // Single quotes are lifetimes as often as chars, so they are not strings
+  Rust: {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ['"'],
+    multilineStrings: ['"'],
+  },
+  "C++": {
+    line: ["//"],
+    block: ["/*", "*/"],
+    strings: ['"', "'"],
+    multilineStrings: [],
+  },
+  PHP: {
+    line: ["//", "#"],
+    block: ["/*", "*/"],
+    strings: ['"', "'"],
+    multilineStrings: ['"', "'"],
+  },
+  Python: {
+    line: ["#"],
+    strings: ['"""', "'''", '"', "'"],
+    multilineStrings: ['"""', "'''"],
+  },
+  Ruby: {
+    line: ["#"],
+    strings: ['"', "'"],
+    multilineStrings: ['"', "'"],
+  },
+};
+
+// getFileType falls back to JavaScript, so other files are matched first
+const COMMENTED_FILES =
+  /\.(?:[cm]?[jt]sx?|py|java|go|rs|php|rb|c|cc|cpp|h|hpp)$/;
+
+export const getCommentSyntax = (file: string): CommentSyntax | undefined =>
+  COMMENTED_FILES.test(file) ? COMMENT_SYNTAX[getFileType(file)] : undefined;
+
+export interface CommentInsertion {
+  // 1-based line the comment is placed above
+  line: number;
+  comment: string;
+}
+
+export interface CommentInsertionResult {
+  content: string;
+  applied: CommentInsertion[];
+  rejected: CommentInsertion[];
+}
+
+/**
+ * Splits code into whitespace-separated tokens with comments removed.
+ * String literals are kept whole, so text inside them, including comment
+ * markers, is compared exactly.
+ */
+export const codeTokens = (
+  content: string,
+  syntax: CommentSyntax
+): string[] => {
+  const tokens: string[] = [];
+  let word = "";
+  const flush = () => {
+    if (word) tokens.push(word);
+    word = "";
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const rest = (marker: string) => content.startsWith(marker, i);
+
+    const lineOpener = syntax.line.find(rest);
+    if (lineOpener) {
+      flush();
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+
+    if (syntax.block && rest(syntax.block[0])) {
+      flush();
+      const end = content.indexOf(syntax.block[1], i + syntax.block[0].length);
+      i = end === -1 ? content.length : end + syntax.block[1].length;
+      continue;
+    }
+
+    const quote = syntax.strings.find(rest);
+    if (quote) {
+      const multiline = syntax.multilineStrings.includes(quote);
+      let end = i + quote.length;
+      while (end < content.length && !content.startsWith(quote, end)) {
+        if (content[end] === "\\") end++;
+        else if (content[end] === "\n" && !multiline) break;
+        end++;
+      }
+      end = Math.min(content.length, end + quote.length);
+      word += content.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (/\s/.test(content[i])) {
+      flush();
+    } else {
+      word += content[i];
+    }
+    i++;
+  }
+  flush();
+
+  return tokens;
+};
+
+const sameTokens = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((token, index) => token === b[index]);
+
+// Comment text as the model wrote it, minus any markers it added itself
+const commentLines = (comment: string, syntax: CommentSyntax): string[] => {
+  const markers = [
+    ...syntax.line,
+    ...(syntax.block ? [syntax.block[0], syntax.block[1], "*"] : []),
+  ];
+  return comment
+    .split("\n")
+    .map((line) => {
+      let text = line.trim();
+      for (const marker of markers) {
+        if (text.startsWith(marker)) text = text.slice(marker.length).trim();
+        if (text.endsWith(marker)) text = text.slice(0, -marker.length).trim();
+      }
+      // A trailing backslash would continue a C/C++ line comment
+      return text.replace(/\\+$/, "").trim();
+    })
+    .filter(Boolean);
+};
+
+const isUnsafeAnchor = (file: string, lines: string[], line: number) => {
+  const previous = lines[line - 2] || "";
+  // Inserting after a line continuation changes the joined statement
+  if (previous.trimEnd().endsWith("\\")) return true;
+  // Between JSX tags a comment would render as text
+  if (/\.[jt]sx$/.test(file)) {
+    const markup = (text: string) => /^<|[^=-]>$/.test(text.trim());
+    return markup(lines[line - 1]) || markup(previous);
+  }
+  return false;
+};
+
+const applyInsertions = (
+  lines: string[],
+  insertions: CommentInsertion[],
+  syntax: CommentSyntax
+): string => {
+  const byLine = new Map<number, string[]>();
+  for (const insertion of insertions) {
+    const indent = lines[insertion.line - 1].match(/^\s*/)![0];
+    byLine.set(insertion.line, [
+      ...(byLine.get(insertion.line) || []),
+      ...commentLines(insertion.comment, syntax).map(
+        (text) => `${indent}${syntax.line[0]} ${text}`
+      ),
+    ]);
+  }
+
+  return lines
+    .flatMap((line, index) => [...(byLine.get(index + 1) || []), line])
+    .join("\n");
+};
+
+/**
+ * Inserts each comment on its own line above the anchored line, using the
+ * file's line-comment syntax and the line's indentation. An insertion is
+ * kept only if the file still has exactly the same code tokens once
+ * comments are stripped; one that would land inside a string, after a line
+ * continuation or between JSX tags is rejected, never written.
+ */
+export const insertComments = (
+  file: string,
+  content: string,
+  insertions: CommentInsertion[]
+): CommentInsertionResult => {
+  const syntax = getCommentSyntax(file);
+  if (!syntax) return { content, applied: [], rejected: insertions };
+
+  const lines = content.split("\n");
+  const original = codeTokens(content, syntax);
+  const applied: CommentInsertion[] = [];
+  const rejected: CommentInsertion[] = [];
+
+  for (const insertion of insertions) {
+    const valid =
+      Number.isInteger(insertion.line) &&
+      insertion.line >= 1 &&
+      insertion.line <= lines.length &&
+      commentLines(insertion.comment, syntax).length > 0 &&
+      !isUnsafeAnchor(file, lines, insertion.line) &&
+      sameTokens(
+        original,
+        codeTokens(applyInsertions(lines, [insertion], syntax), syntax)
+      );
+    (valid ? applied : rejected).push(insertion);
+  }
+
+  const updated = applyInsertions(lines, applied, syntax);
+  if (!sameTokens(original, codeTokens(updated, syntax))) {
+    return { content, applied: [], rejected: insertions };
+  }
+
+  return { content: updated, applied, rejected };
+};
+
+/**
+ * Unified diff for a change that only inserted lines, with three lines of
+ * context per hunk.
+ */
+export const renderInsertionDiff = (
+  file: string,
+  original: string,
+  updated: string
+): string => {
+  // A trailing newline ends the last line rather than starting another
+  const toLines = (text: string) => text.replace(/\n$/, "").split("\n");
+  const before = toLines(original);
+  const after = toLines(updated);
+
+  // Walk both sides; every line of `after` not matching `before` is new
+  const entries: Array<{ text: string; added: boolean }> = [];
+  let j = 0;
+  for (const line of after) {
+    if (j < before.length && line === before[j]) {
+      entries.push({ text: line, added: false });
+      j++;
+    } else {
+      entries.push({ text: line, added: true });
+    }
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < entries.length) {
+    if (!entries[index].added) {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - 3);
+    let end = index;
+    // Extend while the next insertion is within the context window
+    while (end < entries.length) {
+      if (entries[end].added) {
+        end++;
+        continue;
+      }
+      const next = entries.findIndex(
+        (entry, position) => position >= end && entry.added
+      );
+      if (next !== -1 && next - end <= 6) {
+        end = next;
+      } else {
+        end = Math.min(entries.length, end + 3);
+        break;
+      }
+    }
+
+    const slice = entries.slice(start, end);
+    const oldStart =
+      entries.slice(0, start).filter((entry) => !entry.added).length + 1;
+    const newStart = start + 1;
+    const oldCount = slice.filter((entry) => !entry.added).length;
+    hunks.push(
+      [
+        `@@ -${oldStart},${oldCount} +${newStart},${slice.length} @@`,
+        ...slice.map((entry) => `${entry.added ? "+" : " "}${entry.text}`),
+      ].join("\n")
+    );
+    index = end;
+  }
+
+  if (hunks.length === 0) return "";
+  return [`--- a/${file}`, `+++ b/${file}`, ...hunks].join("\n") + "\n";
+};
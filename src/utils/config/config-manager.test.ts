@@ -0,0 +1,60 @@
+import { getProviderConfig, SteelheartConfig } from "./config-manager";
+
+describe("getProviderConfig", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      OPENAI_API_KEY: "sk-env-openai",
+      ANTHROPIC_API_KEY: "sk-ant-env",
+    };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it("uses the top-level key for OpenAI", () => {
+    expect(getProviderConfig({ apiKey: "sk-config" }).apiKey).toBe("sk-config");
+  });
+
+  it("does not send the top-level OpenAI key to another provider", () => {
+    expect(
+      getProviderConfig({ apiKey: "sk-config", provider: "anthropic" }).apiKey
+    ).toBe("sk-ant-env");
+
+    delete process.env.ANTHROPIC_API_KEY;
+    expect(
+      getProviderConfig({ apiKey: "sk-config", provider: "anthropic" }).apiKey
+    ).toBeUndefined();
+  });
+
+  it("does not send OPENAI_API_KEY to an OpenAI-compatible server", () => {
+    const provider = getProviderConfig({
+      apiKey: "sk-config",
+      provider: {
+        type: "openai-compatible",
+        baseURL: "http://localhost:11434/v1",
+      },
+    });
+
+    expect(provider.apiKey).toBeUndefined();
+  });
+
+  it("prefers the provider's own key", () => {
+    expect(
+      getProviderConfig({
+        provider: { type: "anthropic", apiKey: "sk-ant-config" },
+      }).apiKey
+    ).toBe("sk-ant-config");
+  });
+
+  it("rejects an unknown provider type", () => {
+    const config = { provider: "gemini" } as unknown as SteelheartConfig;
+
+    expect(() => getProviderConfig(config)).toThrow(
+      "Unknown provider type 'gemini'"
+    );
+  });
+});
@@ -2,12 +2,103 @@ import { existsSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import chalk from "chalk";
 
+export type ProviderType =
+  | "openai"
+  | "azure-openai"
+  | "anthropic"
+  | "openai-compatible";
+
+export interface ProviderConfig {
+  type: ProviderType;
+  apiKey?: string;
+  baseURL?: string;
+  apiVersion?: string;
+  deployment?: string;
+  organization?: string;
+}
+
+export interface CacheConfig {
+  enabled?: boolean;
+  dir?: string;
+  ttlHours?: number;
+  maxSizeMB?: number;
+}
+
+export interface GitHubConfig {
+  token?: string;
+  apiUrl?: string;
+  // "owner/repo"; detected from GITHUB_REPOSITORY or the origin remote
+  repository?: string;
+  // Submit APPROVE instead of COMMENT when the review passes
+  approveOnPass?: boolean;
+}
+
+export interface GitLabConfig {
+  token?: string;
+  // REST base including /api/v4, e.g. https://gitlab.example.com/api/v4
+  apiUrl?: string;
+  // Numeric project id or "group/project" path
+  project?: string;
+  // Name of the commit status shown in pipelines and merge requests
+  statusName?: string;
+}
+
+export interface ReviewRule {
+  id: string;
+  description: string;
+  severity: "critical" | "major" | "minor";
+  category: "bug" | "security" | "performance" | "style" | "maintainability";
+  // Limits the rule to matching paths, e.g. "src/**/*.ts"
+  glob?: string;
+}
+
+export interface ReviewConfig {
+  // Upper bound on the prompt of a single review request; larger branches
+  // are reviewed in batches and then synthesized
+  batchTokens?: number;
+  // Persona reviews or votes allowed in flight at once (default 2)
+  concurrency?: number;
+  // Share of --votes runs that must report a finding to keep it (default 0.5)
+  agreement?: number;
+  // Markdown file with team conventions, relative to the repository root
+  guidelines?: string;
+  rules?: ReviewRule[];
+}
+
 export interface SteelheartConfig {
   apiKey?: string;
   outputDir?: string;
   defaultModel?: string;
+  provider?: ProviderType | ProviderConfig;
+  cache?: CacheConfig;
+  // USD per 1M tokens, keyed by model name or model family prefix
+  pricing?: Record<string, { input: number; output: number }>;
+  maxCostPerRun?: number;
+  maxTokensPerRun?: number;
+  github?: GitHubConfig;
+  gitlab?: GitLabConfig;
+  review?: ReviewConfig;
 }
 
+const PROVIDER_TYPES: ProviderType[] = [
+  "openai",
+  "azure-openai",
+  "anthropic",
+  "openai-compatible",
+];
+
+// Environment variables consulted when no key is configured for a provider.
+// OpenAI-compatible servers get none: an OpenAI key must never be sent to a
+// third-party host just because it is in the environment.
+const PROVIDER_API_KEY_ENV: Record<
+  Exclude<ProviderType, "openai-compatible">,
+  string
+> = {
+  openai: "OPENAI_API_KEY",
+  "azure-openai": "AZURE_OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+};
+
 export const getConfig = (): SteelheartConfig => {
   const configPath = join(process.cwd(), ".steelheart.json");
   if (existsSync(configPath)) {
@@ -25,24 +116,72 @@ export const saveConfig = (config: SteelheartConfig): void => {
   writeFileSync(configPath, JSON.stringify(config, null, 2));
 };
 
+export const getProviderConfig = (
+  config: SteelheartConfig = getConfig()
+): ProviderConfig => {
+  const provider: ProviderConfig =
+    typeof config.provider === "string"
+      ? { type: config.provider }
+      : { type: "openai", ...config.provider };
+  if (!PROVIDER_TYPES.includes(provider.type)) {
+    throw new Error(
+      `Unknown provider type '${
+        provider.type
+      }' in .steelheart.json. Use one of: ${PROVIDER_TYPES.join(", ")}`
+    );
+  }
+
+  const baseURLFromEnv =
+    provider.type === "azure-openai"
+      ? process.env.AZURE_OPENAI_ENDPOINT
+      : provider.type === "anthropic"
+      ? process.env.ANTHROPIC_BASE_URL
+      : process.env.OPENAI_BASE_URL;
+
+  return {
+    ...provider,
+    // The top-level `apiKey` written by `st setup` is an OpenAI key
+    apiKey:
+      provider.type === "openai-compatible"
+        ? provider.apiKey
+        : provider.apiKey ||
+          (provider.type === "openai" ? config.apiKey : undefined) ||
+          process.env[PROVIDER_API_KEY_ENV[provider.type]],
+    baseURL: provider.baseURL || baseURLFromEnv,
+    organization:
+      provider.organization ||
+      (provider.type === "openai" ? process.env.OPENAI_ORG_ID : undefined),
+  };
+};
+
 export const validateApiKey = (): boolean => {
-  const config = getConfig();
-  const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+  let provider: ProviderConfig;
+  try {
+    provider = getProviderConfig();
+  } catch (error) {
+    console.log(chalk.red(`❌ ${(error as Error).message}`));
+    return false;
+  }
 
-  if (!apiKey) {
-    console.log(chalk.red("❌ OpenAI API key not found!"));
-    console.log(chalk.yellow("💡 Please run: st setup"));
+  // Local OpenAI-compatible servers (Ollama, llama.cpp) run without a key
+  if (provider.type === "openai-compatible") {
+    return true;
+  }
+
+  if (!provider.apiKey) {
+    const envName = PROVIDER_API_KEY_ENV[provider.type];
     console.log(
-      chalk.gray("   Or set the OPENAI_API_KEY environment variable")
+      chalk.red(`❌ API key for provider '${provider.type}' not found!`)
     );
+    console.log(chalk.yellow("💡 Please run: st setup"));
+    console.log(chalk.gray(`   Or set the ${envName} environment variable`));
     return false;
   }
   return true;
 };
 
 export const getApiKey = (): string | undefined => {
-  const config = getConfig();
-  return config.apiKey || process.env.OPENAI_API_KEY;
+  return getProviderConfig().apiKey;
 };
 
 export const getOutputDir = (specified?: string): string => {
@@ -52,3 +191,38 @@ export const getOutputDir = (specified?: string): string => {
     join(process.cwd(), "steelheart-output")
   );
 };
+
+export const getGitHubConfig = (
+  config: SteelheartConfig = getConfig()
+): GitHubConfig => {
+  const github = config.github || {};
+
+  return {
+    ...github,
+    token: github.token || process.env.GITHUB_TOKEN,
+    apiUrl: (
+      github.apiUrl ||
+      process.env.GITHUB_API_URL ||
+      "https://api.github.com"
+    ).replace(/\/+$/, ""),
+    repository: github.repository || process.env.GITHUB_REPOSITORY,
+  };
+};
+
+export const getGitLabConfig = (
+  config: SteelheartConfig = getConfig()
+): GitLabConfig => {
+  const gitlab = config.gitlab || {};
+
+  return {
+    ...gitlab,
+    token: gitlab.token || process.env.GITLAB_TOKEN,
+    apiUrl: (
+      gitlab.apiUrl ||
+      process.env.CI_API_V4_URL ||
+      "https://gitlab.com/api/v4"
+    ).replace(/\/+$/, ""),
+    project: gitlab.project || process.env.CI_PROJECT_ID,
+    statusName: gitlab.statusName || "steelheart-ai",
+  };
+};
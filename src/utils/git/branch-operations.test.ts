@@ -0,0 +1,112 @@
+import { getChangedLinesFromDiff, splitDiffByFile } from "./branch-operations";
+
+const diff = (...lines: string[]): string => lines.join("\n");
+
+describe("getChangedLinesFromDiff", () => {
+  it("numbers added and removed lines on the new side", () => {
+    expect(
+      getChangedLinesFromDiff(
+        diff(
+          "diff --git a/app.js b/app.js",
+          "--- a/app.js",
+          "+++ b/app.js",
+          "@@ -1,3 +1,3 @@",
+          " start();",
+          "-old();",
+          "+fresh();",
+          " stop();",
+          "\\ No newline at end of file"
+        )
+      )
+    ).toEqual([
+      { lineNumber: 1, content: "old();", type: "removed" },
+      { lineNumber: 2, content: "fresh();", type: "added" },
+    ]);
+  });
+
+  it("keeps changed lines that start like file headers", () => {
+    const lines = getChangedLinesFromDiff(
+      diff(
+        "diff --git a/schema.sql b/schema.sql",
+        "--- a/schema.sql",
+        "+++ b/schema.sql",
+        "@@ -1,2 +1,2 @@",
+        "--- removed comment",
+        "+++counter;",
+        " SELECT 1;"
+      )
+    );
+
+    expect(lines).toEqual([
+      { lineNumber: 0, content: "-- removed comment", type: "removed" },
+      { lineNumber: 1, content: "++counter;", type: "added" },
+    ]);
+  });
+
+  it("reads the headers of a second section for the same file", () => {
+    const lines = getChangedLinesFromDiff(
+      diff(
+        "diff --git a/app.js b/app.js",
+        "--- a/app.js",
+        "+++ b/app.js",
+        "@@ -1,0 +2,1 @@",
+        "+committed();",
+        "diff --git a/app.js b/app.js",
+        "--- a/app.js",
+        "+++ b/app.js",
+        "@@ -5,0 +6,1 @@",
+        "+uncommitted();"
+      )
+    );
+
+    expect(lines.map((line) => [line.type, line.lineNumber])).toEqual([
+      ["added", 2],
+      ["added", 6],
+    ]);
+  });
+});
+
+describe("splitDiffByFile", () => {
+  it("splits by file and joins repeated sections", () => {
+    const files = splitDiffByFile(
+      diff(
+        "diff --git a/a.js b/a.js",
+        "@@ -1,0 +1,1 @@",
+        "+a();",
+        "",
+        "--- Working Directory Changes ---",
+        "diff --git a/b.js b/b.js",
+        "@@ -1,0 +1,1 @@",
+        "+b();",
+        "diff --git a/a.js b/a.js",
+        "@@ -2,0 +3,1 @@",
+        "+again();"
+      )
+    );
+
+    expect(files).toEqual({
+      "a.js": diff(
+        "diff --git a/a.js b/a.js",
+        "@@ -1,0 +1,1 @@",
+        "+a();",
+        "diff --git a/a.js b/a.js",
+        "@@ -2,0 +3,1 @@",
+        "+again();"
+      ),
+      "b.js": diff("diff --git a/b.js b/b.js", "@@ -1,0 +1,1 @@", "+b();"),
+    });
+  });
+
+  it("does not split on removed lines that look like separators", () => {
+    const files = splitDiffByFile(
+      diff(
+        "diff --git a/notes.sql b/notes.sql",
+        "@@ -1,2 +1,1 @@",
+        "--- Staged Changes ---",
+        " SELECT 1;"
+      )
+    );
+
+    expect(files["notes.sql"].split("\n")).toHaveLength(4);
+  });
+});
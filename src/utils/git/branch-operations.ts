@@ -1,8 +1,17 @@
 import simpleGit from "simple-git";
-import { readFileSync } from "fs";
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { BranchChanges, FileChanges, ChangedLine } from "../../types/cli";
 
+// Steelheart's own state (review history, incremental reviews) lives in
+// .steelheart/ and is never part of the changes under review
+const STATE_DIR = ".steelheart";
+const STATE_PATHSPEC = ["--", ":/", `:(top,exclude)${STATE_DIR}`];
+
+const isStatePath = (file: string): boolean =>
+  file === STATE_DIR || file.startsWith(`${STATE_DIR}/`);
+
 export const getBranchChanges = async (
   repoPath: string,
   baseBranch: string = "main",
@@ -70,6 +79,9 @@ export const getBranchChanges = async (
     }
 
     let commits, diffSummary, diffContent;
+    let baseSha: string | undefined;
+    let startSha: string | undefined;
+    let headSha: string | undefined;
     let newFiles: string[] = [];
     let modifiedFiles: string[] = [];
 
@@ -81,7 +93,7 @@ export const getBranchChanges = async (
 
       // Get all files in working directory as "new" files for analysis
       const allFiles = await git
-        .raw(["ls-files"])
+        .raw(["ls-files", ...STATE_PATHSPEC])
         .then((output) =>
           output
             .trim()
@@ -94,7 +106,9 @@ export const getBranchChanges = async (
       const status = await git.status();
 
       newFiles = allFiles.slice(0, 50); // Limit to first 50 files to avoid overwhelming analysis
-      modifiedFiles = [...status.modified, ...status.staged].slice(0, 20);
+      modifiedFiles = [...status.modified, ...status.staged]
+        .filter((f) => !isStatePath(f))
+        .slice(0, 20);
 
       // Create mock diff summary for analysis
       diffSummary = {
@@ -124,10 +138,17 @@ export const getBranchChanges = async (
         "Fallback mode: Repository analysis without git diff comparison";
     } else {
       // Normal git diff analysis
+      headSha = (await git.revparse(["HEAD"])).trim();
+      startSha = (await git.revparse([actualBaseBranch])).trim();
+      baseSha = (
+        await git.raw(["merge-base", actualBaseBranch, "HEAD"])
+      ).trim();
+
       commits = await git.log([`${actualBaseBranch}..${currentBranch.trim()}`]);
 
       diffSummary = await git.diffSummary([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
 
       newFiles = await git
@@ -136,6 +157,7 @@ export const getBranchChanges = async (
           "--name-only",
           "--diff-filter=A",
           `${actualBaseBranch}...${currentBranch.trim()}`,
+          ...STATE_PATHSPEC,
         ])
         .then((output) =>
           output
@@ -156,6 +178,7 @@ export const getBranchChanges = async (
 
       diffContent = await git.diff([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
     }
 
@@ -164,8 +187,9 @@ export const getBranchChanges = async (
       const status = await git.status();
       const committedDiff = await git.diffSummary([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
-      const workingDiff = await git.diffSummary();
+      const workingDiff = await git.diffSummary(STATE_PATHSPEC);
 
       // Get committed new files
       const committedNewFiles = await git
@@ -174,6 +198,7 @@ export const getBranchChanges = async (
           "--name-only",
           "--diff-filter=A",
           `${actualBaseBranch}...${currentBranch.trim()}`,
+          ...STATE_PATHSPEC,
         ])
         .then((output) =>
           output
@@ -183,7 +208,7 @@ export const getBranchChanges = async (
         );
 
       const stagedAddedFiles = await git
-        .raw(["diff", "--cached", "--name-status"])
+        .raw(["diff", "--cached", "--name-status", ...STATE_PATHSPEC])
         .then((output) => {
           return output
             .trim()
@@ -196,7 +221,7 @@ export const getBranchChanges = async (
 
       // Get untracked (unadded) files using git ls-files --others --exclude-standard
       const untrackedFiles = await git
-        .raw(["ls-files", "--others", "--exclude-standard"])
+        .raw(["ls-files", "--others", "--exclude-standard", ...STATE_PATHSPEC])
         .then((output) =>
           output
             .trim()
@@ -214,7 +239,11 @@ export const getBranchChanges = async (
       modifiedFiles = committedDiff.files
         .map((f) => f.file)
         .filter((f) => !newFiles.includes(f))
-        .concat(status.modified.filter((f) => !newFiles.includes(f)));
+        .concat(
+          status.modified.filter(
+            (f) => !newFiles.includes(f) && !isStatePath(f)
+          )
+        );
 
       // Combine committed and working directory changes
       const allFiles = new Map();
@@ -284,9 +313,10 @@ export const getBranchChanges = async (
       // Get diff content including working directory
       const committedDiffContent = await git.diff([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
-      const workingDiffContent = await git.diff();
-      const stagedDiffContent = await git.diff(["--cached"]);
+      const workingDiffContent = await git.diff(STATE_PATHSPEC);
+      const stagedDiffContent = await git.diff(["--cached", ...STATE_PATHSPEC]);
 
       diffContent =
         committedDiffContent +
@@ -298,6 +328,7 @@ export const getBranchChanges = async (
       // Only committed changes
       diffSummary = await git.diffSummary([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
 
       // Get new files
@@ -307,6 +338,7 @@ export const getBranchChanges = async (
           "--name-only",
           "--diff-filter=A",
           `${actualBaseBranch}...${currentBranch.trim()}`,
+          ...STATE_PATHSPEC,
         ])
         .then((output) =>
           output
@@ -327,6 +359,7 @@ export const getBranchChanges = async (
 
       diffContent = await git.diff([
         `${actualBaseBranch}...${currentBranch.trim()}`,
+        ...STATE_PATHSPEC,
       ]);
     }
 
@@ -342,6 +375,9 @@ export const getBranchChanges = async (
       totalDeletions: diffSummary.deletions,
       totalChanges: diffSummary.changed,
       includeUncommitted,
+      baseSha,
+      startSha,
+      headSha,
     };
   } catch (error) {
     console.warn("Could not get branch changes:", error);
@@ -349,6 +385,256 @@ export const getBranchChanges = async (
   }
 };
 
+// `git hash-object -t tree /dev/null`, the base of a root commit
+const EMPTY_TREE_SHA = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * Changes between two commits, without touching the working tree. Unlike
+ * getBranchChanges no base is guessed: `fromRef` is the exact start. File
+ * contents are read from `toRef` (see readChangedFile).
+ */
+export const getRangeChanges = async (
+  repoPath: string,
+  fromRef: string,
+  toRef: string = "HEAD"
+): Promise<BranchChanges | null> => {
+  try {
+    const git = simpleGit(repoPath);
+    const startSha =
+      fromRef === EMPTY_TREE_SHA
+        ? EMPTY_TREE_SHA
+        : (await git.revparse(["--verify", `${fromRef}^{commit}`])).trim();
+    const headSha = (
+      await git.revparse(["--verify", `${toRef}^{commit}`])
+    ).trim();
+    const range = [startSha, headSha];
+
+    const currentBranch =
+      toRef === "HEAD"
+        ? (await git.revparse(["--abbrev-ref", "HEAD"])).trim()
+        : toRef;
+    const commits = await git.log(
+      startSha === EMPTY_TREE_SHA ? [headSha] : [`${startSha}..${headSha}`]
+    );
+    const diffSummary = await git.diffSummary([...range, ...STATE_PATHSPEC]);
+
+    const newFiles = await git
+      .raw([
+        "diff",
+        "--name-only",
+        "--diff-filter=A",
+        ...range,
+        ...STATE_PATHSPEC,
+      ])
+      .then((output) =>
+        output
+          .trim()
+          .split("\n")
+          .filter((f) => f)
+      );
+    const modifiedFiles = diffSummary.files
+      .map((f) => f.file)
+      .filter((f) => !newFiles.includes(f));
+
+    return {
+      currentBranch,
+      baseBranch: fromRef === EMPTY_TREE_SHA ? "(empty tree)" : fromRef,
+      commits: [...commits.all],
+      changedFiles: diffSummary.files.map((file) => ({
+        ...file,
+        isNew: newFiles.includes(file.file),
+      })),
+      newFiles,
+      modifiedFiles,
+      diffContent: await git.diff([...range, ...STATE_PATHSPEC]),
+      totalInsertions: diffSummary.insertions,
+      totalDeletions: diffSummary.deletions,
+      totalChanges: diffSummary.changed,
+      includeUncommitted: false,
+      baseSha: startSha,
+      startSha,
+      headSha,
+      contentRef: headSha,
+    };
+  } catch (error) {
+    console.warn(`Could not get changes for ${fromRef}..${toRef}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Changes introduced by a single commit, compared to its first parent. A
+ * root commit is compared to the empty tree.
+ */
+export const getCommitChanges = async (
+  repoPath: string,
+  commit: string
+): Promise<BranchChanges | null> => {
+  const git = simpleGit(repoPath);
+  let parent = `${commit}^`;
+  try {
+    await git.revparse(["--verify", `${commit}^{commit}`]);
+  } catch (error) {
+    console.warn(`Could not find commit ${commit}:`, error);
+    return null;
+  }
+  try {
+    await git.revparse(["--verify", parent]);
+  } catch {
+    parent = EMPTY_TREE_SHA;
+  }
+  return getRangeChanges(repoPath, parent, commit);
+};
+
+export interface ReviewCommit {
+  hash: string;
+  subject: string;
+  // Full message, subject included
+  message: string;
+  author: string;
+}
+
+/**
+ * Commits to review one at a time, oldest first: the last `count` commits
+ * on HEAD, or every commit not on `baseBranch` (or `origin/<baseBranch>`)
+ * when `count` is "all". Merge commits are skipped since their diff is
+ * not the work of the commit itself.
+ */
+export const getReviewCommits = async (
+  repoPath: string,
+  baseBranch: string,
+  count: number | "all"
+): Promise<ReviewCommit[]> => {
+  const git = simpleGit(repoPath);
+
+  let range = ["-n", String(count), "HEAD"];
+  if (count === "all") {
+    let base = baseBranch;
+    try {
+      await git.revparse(["--verify", base]);
+    } catch {
+      base = `origin/${baseBranch}`;
+      await git.revparse(["--verify", base]).catch(() => {
+        throw new Error(`Base branch not found: ${baseBranch}`);
+      });
+    }
+    range = [`${base}..HEAD`];
+  }
+
+  // Records end with NUL, fields are split by unit separators
+  const output = await git.raw([
+    "log",
+    "--no-merges",
+    "--reverse",
+    "--format=%H%x1f%s%x1f%an <%ae>%x1f%B%x00",
+    ...range,
+  ]);
+
+  return output
+    .split("\0")
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, subject, author, message] = record.split("\x1f");
+      return { hash, subject, author, message: message.trim() };
+    });
+};
+
+/**
+ * Builds the same structure from a git-style patch (`git diff` or
+ * `git format-patch` output) without applying it. File contents are not
+ * available, so `diffOnly` is set and reviews work from the diff alone.
+ */
+export const getPatchChanges = (
+  patchContent: string,
+  source: string
+): BranchChanges | null => {
+  const fileDiffs = splitDiffByFile(patchContent);
+  const files = Object.keys(fileDiffs).filter((file) => !isStatePath(file));
+  if (files.length === 0) return null;
+
+  const changedFiles = files.map((file) => {
+    const fileDiff = fileDiffs[file];
+    const lines = classifyDiffLines(fileDiff);
+    const insertions = lines.filter((line) => line.kind === "added").length;
+    const deletions = lines.filter((line) => line.kind === "removed").length;
+    return {
+      file,
+      insertions,
+      deletions,
+      binary: /^Binary files /m.test(fileDiff),
+      isNew: /^new file mode/m.test(fileDiff),
+    };
+  });
+  const newFiles = changedFiles.filter((f) => f.isNew).map((f) => f.file);
+
+  return {
+    currentBranch: source,
+    baseBranch: "(patch base)",
+    commits: [],
+    changedFiles,
+    newFiles,
+    modifiedFiles: files.filter((file) => !newFiles.includes(file)),
+    diffContent: files.map((file) => fileDiffs[file]).join("\n"),
+    totalInsertions: changedFiles.reduce((sum, f) => sum + f.insertions, 0),
+    totalDeletions: changedFiles.reduce((sum, f) => sum + f.deletions, 0),
+    totalChanges: changedFiles.length,
+    includeUncommitted: false,
+    diffOnly: true,
+  };
+};
+
+/**
+ * Current content of a changed file as the review should see it: from the
+ * reviewed commit when the changes have a `contentRef`, from the working
+ * tree otherwise. Null when the file does not exist there or the changes
+ * come from a patch.
+ */
+export const readChangedFile = (
+  repoPath: string,
+  branchChanges: Pick<BranchChanges, "contentRef" | "diffOnly">,
+  file: string
+): string | null => {
+  if (branchChanges.diffOnly) return null;
+
+  try {
+    if (branchChanges.contentRef) {
+      return execFileSync(
+        "git",
+        ["show", `${branchChanges.contentRef}:${file}`],
+        {
+          cwd: repoPath,
+          encoding: "utf8",
+          maxBuffer: 64 * 1024 * 1024,
+          stdio: ["ignore", "pipe", "ignore"],
+        }
+      );
+    }
+    const fullPath = join(repoPath, file);
+    return existsSync(fullPath) ? readFileSync(fullPath, "utf8") : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const isAncestorCommit = async (
+  repoPath: string,
+  ancestor: string,
+  ref: string = "HEAD"
+): Promise<boolean> => {
+  try {
+    await simpleGit(repoPath).raw([
+      "merge-base",
+      "--is-ancestor",
+      ancestor,
+      ref,
+    ]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 export const getFileChanges = async (
   repoPath: string,
   filePath: string,
@@ -433,45 +719,131 @@ export const getFileChanges = async (
   }
 };
 
-export const getChangedLinesFromDiff = (diffContent: string): ChangedLine[] => {
-  const lines = diffContent.split("\n");
-  const changedLines: ChangedLine[] = [];
-  let currentLineNumber = 0;
-
-  for (const line of lines) {
-    // Parse diff header to get line numbers
-    const headerMatch = line.match(/^@@ -(\d+),?\d* \+(\d+),?\d* @@/);
-    if (headerMatch) {
-      currentLineNumber = parseInt(headerMatch[2]) - 1;
-      continue;
+export interface DiffLine {
+  kind: "header" | "hunk" | "added" | "removed" | "context" | "note";
+  text: string;
+}
+
+/**
+ * Classifies each line of a unified diff. Hunks end where their header
+ * counts say, so file headers are only recognized between hunks and a
+ * removed "-- comment" or added "++counter" line is never mistaken for a
+ * "---"/"+++" header.
+ */
+export const classifyDiffLines = (diffContent: string): DiffLine[] => {
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  return diffContent.split("\n").map((text): DiffLine => {
+    if (oldLeft > 0 || newLeft > 0) {
+      if (text.startsWith("+")) {
+        newLeft--;
+        return { kind: "added", text };
+      }
+      if (text.startsWith("-")) {
+        oldLeft--;
+        return { kind: "removed", text };
+      }
+      // Some tools strip the space of empty context lines
+      if (text.startsWith(" ") || text === "") {
+        oldLeft--;
+        newLeft--;
+        return { kind: "context", text };
+      }
+      if (text.startsWith("\\")) return { kind: "note", text };
+      // A truncated hunk; whatever follows is read as headers again
+      oldLeft = 0;
+      newLeft = 0;
     }
 
-    // Skip file headers
-    if (
-      line.startsWith("+++") ||
-      line.startsWith("---") ||
-      line.startsWith("diff --git")
-    ) {
-      continue;
+    // "\ No newline at end of file" follows the last line of a hunk
+    if (text.startsWith("\\")) return { kind: "note", text };
+
+    const hunk = text.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (hunk) {
+      oldLeft = hunk[1] === undefined ? 1 : parseInt(hunk[1], 10);
+      newLeft = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      return { kind: "hunk", text };
     }
+    return { kind: "header", text };
+  });
+};
 
-    currentLineNumber++;
+export const getChangedLinesFromDiff = (diffContent: string): ChangedLine[] => {
+  const changedLines: ChangedLine[] = [];
+  let currentLineNumber = 0;
 
-    if (line.startsWith("+") && !line.startsWith("+++")) {
+  for (const { kind, text } of classifyDiffLines(diffContent)) {
+    if (kind === "hunk") {
+      currentLineNumber = parseInt(text.match(/\+(\d+)/)![1], 10) - 1;
+    } else if (kind === "context") {
+      currentLineNumber++;
+    } else if (kind === "added") {
       changedLines.push({
-        lineNumber: currentLineNumber,
-        content: line.substring(1),
+        lineNumber: ++currentLineNumber,
+        content: text.substring(1),
         type: "added",
       });
-    } else if (line.startsWith("-") && !line.startsWith("---")) {
+    } else if (kind === "removed") {
+      // Removed lines sit after the last line kept before them
       changedLines.push({
-        lineNumber: currentLineNumber - 1,
-        content: line.substring(1),
+        lineNumber: currentLineNumber,
+        content: text.substring(1),
         type: "removed",
       });
-      currentLineNumber--; // Don't increment for removed lines
     }
   }
 
   return changedLines;
 };
+
+// Lines getBranchChanges puts between the committed, staged and working
+// tree diffs; they belong to no file
+const DIFF_SECTION_SEPARATOR = /^--- (?:Staged|Working Directory) Changes ---$/;
+
+/**
+ * Splits a multi-file unified diff into one diff per file, keyed by the path
+ * on the new side. Sections for the same file (e.g. committed and working
+ * tree changes) are joined one after the other.
+ */
+export const splitDiffByFile = (
+  diffContent: string
+): Record<string, string> => {
+  const files: Record<string, string> = {};
+  let currentFile: string | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    // Blank lines between sections are not part of any hunk
+    while (buffer.length > 0 && buffer[buffer.length - 1] === "") {
+      buffer.pop();
+    }
+    if (currentFile && buffer.length > 0) {
+      const section = buffer.join("\n");
+      files[currentFile] = files[currentFile]
+        ? `${files[currentFile]}\n${section}`
+        : section;
+    }
+    buffer = [];
+  };
+
+  for (const { kind, text } of classifyDiffLines(diffContent)) {
+    if (kind === "header" && DIFF_SECTION_SEPARATOR.test(text)) {
+      flush();
+      currentFile = null;
+      continue;
+    }
+    const header =
+      kind === "header" && text.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (header) {
+      flush();
+      currentFile = header[2];
+    }
+    if (currentFile) {
+      buffer.push(text);
+    }
+  }
+  flush();
+
+  return files;
+};
@@ -23,3 +23,24 @@ export const getGitInfo = async (repoPath: string): Promise<GitInfo> => {
     };
   }
 };
+
+/**
+ * Returns the repository path ("owner/repo", or "group/subgroup/repo" on
+ * GitLab) of a remote, parsed from its SSH or HTTPS URL.
+ */
+export const getRemoteRepositoryPath = async (
+  repoPath: string,
+  remote: string = "origin"
+): Promise<string | null> => {
+  try {
+    const url = (await simpleGit(repoPath).remote(["get-url", remote]))?.trim();
+    if (!url) return null;
+
+    const match = url.match(
+      /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?[^:/]+(?::\d+)?[:/](.+?)(?:\.git)?\/?$/
+    );
+    return match ? match[1] : null;
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,118 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import simpleGit from "simple-git";
+
+export interface PatchCheck {
+  applies: boolean;
+  error?: string;
+}
+
+/**
+ * Pulls a unified diff out of a model response, dropping code fences and
+ * any prose around it. Returns null when the response holds no diff.
+ */
+export const extractUnifiedDiff = (content: string): string | null => {
+  const fenced = content.match(/```(?:diff|patch)?\s*\n([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+
+  const start = text.search(/^(?:diff --git |--- (?:a\/|\/dev\/null))/m);
+  if (start === -1 || !/^@@ /m.test(text)) return null;
+
+  const lines = text.slice(start).split("\n");
+  // Trailing prose ends the patch; keep diff lines only
+  const end = lines.findIndex(
+    (line, index) =>
+      index > 0 &&
+      line !== "" &&
+      !/^(?:[ +\-@\\]|diff --git |index |--- |\+\+\+ |new file|deleted file|similarity|rename )/.test(
+        line
+      )
+  );
+  const patch = (end === -1 ? lines : lines.slice(0, end)).join("\n").trimEnd();
+
+  return `${patch}\n`;
+};
+
+// Strips the first path component, as `git apply` does by default (-p1)
+const patchPath = (header: string): string | null => {
+  const path = header.replace(/\t.*$/, "").trim();
+  if (path === "/dev/null") return path;
+  const slash = path.indexOf("/");
+  return slash === -1 ? null : path.slice(slash + 1);
+};
+
+/**
+ * Checks that a patch only edits `file`: every header must name it, and
+ * the patch may not create, delete, rename, copy or change the mode of a
+ * file. Returns why the patch is out of scope, or null when it is not.
+ */
+export const checkPatchScope = (patch: string, file: string): string | null => {
+  const paths: string[] = [];
+
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const names = line.match(/^diff --git (\S+) (\S+)$/);
+      if (!names) return `Unrecognized patch header: ${line}`;
+      paths.push(...names.slice(1));
+    } else if (line.startsWith("--- ") || line.startsWith("+++ ")) {
+      paths.push(line.slice(4));
+    } else if (
+      /^(?:new file|deleted file|rename |copy |similarity|old mode|new mode)/.test(
+        line
+      )
+    ) {
+      return "The patch creates, deletes, renames or changes the mode of a file";
+    }
+  }
+
+  if (paths.length === 0) return "The patch names no file";
+  for (const header of paths) {
+    const path = patchPath(header);
+    if (path === "/dev/null") {
+      return "The patch creates or deletes a file";
+    }
+    if (path !== file) {
+      return `The patch changes ${path || header}, not ${file}`;
+    }
+  }
+  return null;
+};
+
+// Hunk counts from a model are often off by a line or two; --recount fixes them
+const runGitApply = async (
+  repoPath: string,
+  patch: string,
+  args: string[]
+): Promise<void> => {
+  const dir = mkdtempSync(join(tmpdir(), "steelheart-patch-"));
+  const patchPath = join(dir, "fix.patch");
+  try {
+    writeFileSync(patchPath, patch);
+    await simpleGit(repoPath).raw(["apply", "--recount", ...args, patchPath]);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+export const checkPatch = async (
+  repoPath: string,
+  patch: string
+): Promise<PatchCheck> => {
+  try {
+    await runGitApply(repoPath, patch, ["--check"]);
+    return { applies: true };
+  } catch (error) {
+    return {
+      applies: false,
+      error: (error instanceof Error ? error.message : String(error)).trim(),
+    };
+  }
+};
+
+export const applyPatch = async (
+  repoPath: string,
+  patch: string
+): Promise<void> => {
+  await runGitApply(repoPath, patch, []);
+};
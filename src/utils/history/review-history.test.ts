@@ -0,0 +1,58 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getCommitIdentity } from "./review-history";
+
+describe("getCommitIdentity", () => {
+  let repoPath: string;
+  const git = (...args: string[]): string =>
+    execFileSync("git", args, { cwd: repoPath, encoding: "utf8" }).trim();
+  const commit = (message: string, email: string): string => {
+    writeFileSync(join(repoPath, "app.js"), `// ${message}\n`);
+    git("add", "app.js");
+    git(
+      "-c",
+      `user.name=${message} author`,
+      "-c",
+      `user.email=${email}`,
+      "commit",
+      "-qm",
+      message
+    );
+    return git("rev-parse", "HEAD");
+  };
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), "steelheart-history-"));
+    git("init", "-q");
+  });
+
+  afterEach(() => {
+    rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it("identifies the reviewed commit rather than HEAD", async () => {
+    const reviewed = commit("first", "first@example.com");
+    commit("second", "second@example.com");
+
+    expect(await getCommitIdentity(repoPath, reviewed)).toEqual({
+      commitSha: reviewed,
+      author: "first author <first@example.com>",
+    });
+  });
+
+  it("defaults to HEAD", async () => {
+    commit("first", "first@example.com");
+    const head = commit("second", "second@example.com");
+
+    expect((await getCommitIdentity(repoPath)).commitSha).toBe(head);
+  });
+
+  it("returns nulls when the ref does not resolve", async () => {
+    expect(await getCommitIdentity(repoPath, "missing")).toEqual({
+      commitSha: null,
+      author: null,
+    });
+  });
+});
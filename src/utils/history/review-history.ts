@@ -0,0 +1,232 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import simpleGit from "simple-git";
+import { BranchReviewResult } from "../../types";
+
+export const HISTORY_DIR = join(".steelheart", "history");
+
+export interface ReviewHistoryRecord {
+  version: 1;
+  timestamp: string;
+  branch: string;
+  base: string;
+  commitSha: string | null;
+  // Author of the reviewed commit, "Name <email>"
+  author: string | null;
+  decision: "PASS" | "FAIL";
+  issues: {
+    critical: number;
+    major: number;
+    minor: number;
+    total: number;
+  };
+  categories: Record<string, number>;
+  // Findings hidden by directives or the baseline
+  suppressed: number;
+  filesReviewed: number;
+  costUSD: number;
+  tokens: number;
+  durationMs: number;
+}
+
+export interface HistoryGroupStats {
+  key: string;
+  runs: number;
+  failures: number;
+  averageIssues: number;
+  costUSD: number;
+  lastRun: string;
+}
+
+export interface HistorySummary {
+  runs: number;
+  failures: number;
+  averageIssues: number;
+  averageDurationMs: number;
+  costUSD: number;
+  // Per ISO week, oldest first
+  weeks: HistoryGroupStats[];
+  // Categories by how many runs reported them
+  categories: Array<{ category: string; runs: number; findings: number }>;
+}
+
+export interface HistoryFilter {
+  branch?: string;
+  author?: string;
+  sinceDays?: number;
+}
+
+// SHA and author of `ref`: the reviewed commit, HEAD for working-tree reviews
+export const getCommitIdentity = async (
+  repoPath: string,
+  ref = "HEAD"
+): Promise<{ commitSha: string | null; author: string | null }> => {
+  try {
+    const output = await simpleGit(repoPath).raw([
+      "log",
+      "-1",
+      "--format=%H%n%an <%ae>",
+      ref,
+      "--",
+    ]);
+    const [commitSha, author] = output.trim().split("\n");
+    return { commitSha: commitSha || null, author: author || null };
+  } catch (error) {
+    return { commitSha: null, author: null };
+  }
+};
+
+export const buildHistoryRecord = (
+  result: BranchReviewResult,
+  details: Omit<
+    ReviewHistoryRecord,
+    | "version"
+    | "timestamp"
+    | "decision"
+    | "issues"
+    | "categories"
+    | "suppressed"
+  >
+): ReviewHistoryRecord => {
+  const categories: Record<string, number> = {};
+  result.report.issues.forEach((issue) => {
+    categories[issue.category] = (categories[issue.category] || 0) + 1;
+  });
+
+  const critical = result.criticalIssues.length;
+  const major = result.majorIssues.length;
+  const minor = result.minorIssues.length;
+
+  return {
+    version: 1,
+    timestamp: new Date().toISOString(),
+    ...details,
+    decision: result.decision,
+    issues: { critical, major, minor, total: critical + major + minor },
+    categories,
+    suppressed: result.report?.suppressedIssues?.length || 0,
+  };
+};
+
+/**
+ * Writes one record per review run. File names start with the timestamp,
+ * so runs never overwrite each other and sort chronologically.
+ */
+export const saveHistoryRecord = (
+  repoPath: string,
+  record: ReviewHistoryRecord
+): string => {
+  const dir = join(repoPath, HISTORY_DIR);
+  mkdirSync(dir, { recursive: true });
+
+  const stamp = record.timestamp.replace(/[:.]/g, "-");
+  const sha = record.commitSha ? `-${record.commitSha.slice(0, 8)}` : "";
+  const path = join(dir, `${stamp}${sha}.json`);
+  writeFileSync(path, JSON.stringify(record, null, 2));
+  return path;
+};
+
+export const loadHistory = (
+  repoPath: string,
+  filter: HistoryFilter = {}
+): ReviewHistoryRecord[] => {
+  const dir = join(repoPath, HISTORY_DIR);
+  if (!existsSync(dir)) return [];
+
+  const since = filter.sinceDays
+    ? Date.now() - filter.sinceDays * 24 * 60 * 60 * 1000
+    : 0;
+  const author = filter.author?.toLowerCase();
+
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .flatMap((name) => {
+      try {
+        return [
+          JSON.parse(
+            readFileSync(join(dir, name), "utf8")
+          ) as ReviewHistoryRecord,
+        ];
+      } catch (error) {
+        console.warn(`Skipping unreadable history record: ${name}`);
+        return [];
+      }
+    })
+    .filter(
+      (record) =>
+        (!filter.branch || record.branch === filter.branch) &&
+        (!author || (record.author || "").toLowerCase().includes(author)) &&
+        new Date(record.timestamp).getTime() >= since
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Monday of the record's week, e.g. "2024-05-13"
+const weekOf = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Groups records by `keyOf` and computes run count, FAIL count, average
+ * findings and cost per group, in order of first appearance.
+ */
+export const groupHistory = (
+  records: ReviewHistoryRecord[],
+  keyOf: (record: ReviewHistoryRecord) => string
+): HistoryGroupStats[] => {
+  const groups = new Map<string, ReviewHistoryRecord[]>();
+  records.forEach((record) => {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    runs: group.length,
+    failures: group.filter((record) => record.decision === "FAIL").length,
+    averageIssues:
+      group.reduce((sum, record) => sum + record.issues.total, 0) /
+      group.length,
+    costUSD: group.reduce((sum, record) => sum + record.costUSD, 0),
+    lastRun: group[group.length - 1].timestamp,
+  }));
+};
+
+export const summarizeHistory = (
+  records: ReviewHistoryRecord[]
+): HistorySummary => {
+  const runs = records.length;
+  const sum = (value: (record: ReviewHistoryRecord) => number) =>
+    records.reduce((total, record) => total + value(record), 0);
+
+  const categories = new Map<string, { runs: number; findings: number }>();
+  records.forEach((record) => {
+    Object.entries(record.categories).forEach(([category, count]) => {
+      const entry = categories.get(category) || { runs: 0, findings: 0 };
+      entry.runs++;
+      entry.findings += count;
+      categories.set(category, entry);
+    });
+  });
+
+  return {
+    runs,
+    failures: records.filter((record) => record.decision === "FAIL").length,
+    averageIssues: runs ? sum((record) => record.issues.total) / runs : 0,
+    averageDurationMs: runs ? sum((record) => record.durationMs) / runs : 0,
+    costUSD: sum((record) => record.costUSD),
+    weeks: groupHistory(records, (record) => weekOf(record.timestamp)),
+    categories: Array.from(categories.entries())
+      .map(([category, entry]) => ({ category, ...entry }))
+      .sort((a, b) => b.runs - a.runs || b.findings - a.findings),
+  };
+};
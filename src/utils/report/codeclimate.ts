@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import { Issue, ReviewReport } from "../../types";
+import { fingerprintIssue } from "../review/baseline";
+import { getSarifRuleId } from "./sarif";
+
+const CODECLIMATE_SEVERITY: Record<Issue["severity"], string> = {
+  critical: "critical",
+  warning: "major",
+  info: "minor",
+};
+
+const CODECLIMATE_CATEGORY: Record<Issue["category"], string> = {
+  bug: "Bug Risk",
+  security: "Security",
+  performance: "Performance",
+  style: "Style",
+  maintainability: "Clarity",
+};
+
+/**
+ * Converts a review report into a Code Climate issue list, the format of
+ * GitLab's Code Quality widget. Fingerprints are the baseline fingerprints,
+ * so a finding keeps its identity between pipelines and GitLab can show
+ * which findings a merge request introduced or resolved.
+ */
+export const buildCodeClimateReport = (
+  report: ReviewReport,
+  repoPath: string
+): any[] => {
+  const seen = new Map<string, number>();
+
+  return report.issues.map((issue) => {
+    let fingerprint = issue.fingerprint || fingerprintIssue(repoPath, issue);
+    // GitLab needs unique fingerprints; repeats of one finding get numbered
+    const repeat = seen.get(fingerprint) || 0;
+    seen.set(fingerprint, repeat + 1);
+    if (repeat > 0) {
+      fingerprint = createHash("sha256")
+        .update(`${fingerprint}:${repeat}`)
+        .digest("hex")
+        .slice(0, 32);
+    }
+
+    return {
+      type: "issue",
+      check_name: issue.rule || getSarifRuleId(issue.category),
+      description: issue.title || issue.description,
+      content: {
+        body: [
+          issue.description,
+          issue.suggestion && `Fix: ${issue.suggestion}`,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+      categories: [CODECLIMATE_CATEGORY[issue.category]],
+      severity: CODECLIMATE_SEVERITY[issue.severity],
+      fingerprint,
+      location: {
+        path: issue.file.replace(/^\.?\//, ""),
+        // File-level findings are pinned to the first line
+        lines: { begin: Math.max(issue.line, 1) },
+      },
+    };
+  });
+};
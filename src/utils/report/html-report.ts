@@ -0,0 +1,724 @@
+import { Issue, ReviewReport } from "../../types";
+import { BranchChanges } from "../../types/cli";
+import { getCommentSyntax } from "../code-comments";
+import { getFileType } from "../code-extraction";
+import { readChangedFile, splitDiffByFile } from "../git/branch-operations";
+import { REVIEW_SEVERITY } from "../review/structured-review";
+
+// Lines of file content shown above and below a finding
+const SNIPPET_CONTEXT = 3;
+// Longer hunks are cut to this many lines on each side of the finding
+const HUNK_CONTEXT = 8;
+
+// Files the highlighter understands; anything else is shown as plain text
+const HIGHLIGHTED_FILES =
+  /\.(?:[cm]?[jt]sx?|py|java|go|rs|php|rb|c|cc|cpp|h|hpp)$/;
+
+const C_LIKE_KEYWORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "do",
+  "else",
+  "enum",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "if",
+  "import",
+  "new",
+  "null",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "void",
+  "while",
+];
+
+// Keyed by the language names returned by getFileType
+const KEYWORDS: Record<string, string[]> = {
+  JavaScript: [
+    ...C_LIKE_KEYWORDS,
+    "async",
+    "await",
+    "export",
+    "from",
+    "function",
+    "in",
+    "instanceof",
+    "let",
+    "of",
+    "typeof",
+    "undefined",
+    "var",
+    "yield",
+  ],
+  TypeScript: [
+    ...C_LIKE_KEYWORDS,
+    "as",
+    "async",
+    "await",
+    "export",
+    "from",
+    "function",
+    "implements",
+    "in",
+    "instanceof",
+    "interface",
+    "let",
+    "of",
+    "readonly",
+    "type",
+    "typeof",
+    "undefined",
+    "var",
+  ],
+  Java: [
+    ...C_LIKE_KEYWORDS,
+    "abstract",
+    "final",
+    "implements",
+    "instanceof",
+    "interface",
+    "package",
+    "super",
+    "synchronized",
+    "throws",
+  ],
+  Go: [
+    ...C_LIKE_KEYWORDS,
+    "chan",
+    "defer",
+    "func",
+    "go",
+    "interface",
+    "map",
+    "nil",
+    "package",
+    "range",
+    "select",
+    "struct",
+    "type",
+    "var",
+  ],
+  Rust: [
+    ...C_LIKE_KEYWORDS,
+    "fn",
+    "impl",
+    "let",
+    "loop",
+    "match",
+    "mod",
+    "mut",
+    "pub",
+    "self",
+    "struct",
+    "trait",
+    "use",
+  ],
+  "C++": [
+    ...C_LIKE_KEYWORDS,
+    "auto",
+    "delete",
+    "namespace",
+    "nullptr",
+    "struct",
+    "template",
+    "typedef",
+    "using",
+    "virtual",
+  ],
+  PHP: [
+    ...C_LIKE_KEYWORDS,
+    "array",
+    "echo",
+    "foreach",
+    "function",
+    "namespace",
+    "use",
+  ],
+  Python: [
+    "and",
+    "as",
+    "async",
+    "await",
+    "break",
+    "class",
+    "continue",
+    "def",
+    "elif",
+    "else",
+    "except",
+    "False",
+    "finally",
+    "for",
+    "from",
+    "if",
+    "import",
+    "in",
+    "is",
+    "lambda",
+    "None",
+    "not",
+    "or",
+    "pass",
+    "raise",
+    "return",
+    "self",
+    "True",
+    "try",
+    "while",
+    "with",
+    "yield",
+  ],
+  Ruby: [
+    "begin",
+    "class",
+    "def",
+    "do",
+    "else",
+    "elsif",
+    "end",
+    "ensure",
+    "false",
+    "if",
+    "module",
+    "nil",
+    "require",
+    "rescue",
+    "return",
+    "self",
+    "true",
+    "unless",
+    "while",
+    "yield",
+  ],
+};
+
+const SEVERITY_LABEL: Record<Issue["severity"], string> = {
+  critical: "Critical",
+  warning: "Major",
+  info: "Minor",
+};
+
+const SEVERITY_ORDER: Issue["severity"][] = ["critical", "warning", "info"];
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Highlights comments, strings, keywords and numbers line by line. Block
+ * comments and multi-line strings carry over to the following lines; a
+ * snippet that starts inside one is shown as code.
+ */
+const highlightLines = (file: string, lines: string[]): string[] => {
+  const syntax = getCommentSyntax(file);
+  if (!syntax || !HIGHLIGHTED_FILES.test(file)) return lines.map(escapeHtml);
+
+  const keywords = new Set(KEYWORDS[getFileType(file)] || []);
+  const span = (cls: string, text: string) =>
+    `<span class="${cls}">${escapeHtml(text)}</span>`;
+  let open: { close: string; cls: string } | null = null;
+
+  return lines.map((line) => {
+    let html = "";
+    let i = 0;
+    while (i < line.length) {
+      if (open) {
+        const end = line.indexOf(open.close, i);
+        if (end === -1) {
+          html += span(open.cls, line.slice(i));
+          break;
+        }
+        html += span(open.cls, line.slice(i, end + open.close.length));
+        i = end + open.close.length;
+        open = null;
+        continue;
+      }
+
+      const rest = (marker: string) => line.startsWith(marker, i);
+      if (syntax.line.some(rest)) {
+        html += span("c", line.slice(i));
+        break;
+      }
+      if (syntax.block && rest(syntax.block[0])) {
+        html += span("c", syntax.block[0]);
+        i += syntax.block[0].length;
+        open = { close: syntax.block[1], cls: "c" };
+        continue;
+      }
+
+      const quote = syntax.strings.find(rest);
+      if (quote) {
+        let end = i + quote.length;
+        while (end < line.length && !line.startsWith(quote, end)) {
+          if (line[end] === "\\") end++;
+          end++;
+        }
+        if (end >= line.length && syntax.multilineStrings.includes(quote)) {
+          html += span("s", line.slice(i));
+          open = { close: quote, cls: "s" };
+          break;
+        }
+        end = Math.min(line.length, end + quote.length);
+        html += span("s", line.slice(i, end));
+        i = end;
+        continue;
+      }
+
+      const word = line.slice(i).match(/^[A-Za-z_$][\w$]*/);
+      if (word) {
+        html += keywords.has(word[0])
+          ? span("k", word[0])
+          : escapeHtml(word[0]);
+        i += word[0].length;
+        continue;
+      }
+      const number = line.slice(i).match(/^\d[\w.]*/);
+      if (number) {
+        html += span("n", number[0]);
+        i += number[0].length;
+        continue;
+      }
+
+      html += escapeHtml(line[i]);
+      i++;
+    }
+    return html;
+  });
+};
+
+interface HunkLine {
+  type: "add" | "del" | "ctx";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+// The hunk of `fileDiff` that covers `line` of the new file, if any. Hunks
+// end where their header counts say, so text appended after the diff is
+// never read as removed lines.
+const findHunk = (fileDiff: string, line: number): HunkLine[] | null => {
+  let hunk: HunkLine[] | null = null;
+  let covers = false;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const text of fileDiff.split("\n")) {
+    const header = text.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      if (covers) break;
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[3], 10);
+      oldLeft = header[2] === undefined ? 1 : parseInt(header[2], 10);
+      newLeft = header[4] === undefined ? 1 : parseInt(header[4], 10);
+      covers = line >= newLine && line < newLine + Math.max(newLeft, 1);
+      hunk = [];
+      continue;
+    }
+    if (!hunk || (oldLeft <= 0 && newLeft <= 0)) continue;
+
+    if (text.startsWith("+")) {
+      hunk.push({ type: "add", text: text.slice(1), newLine: newLine++ });
+      newLeft--;
+    } else if (text.startsWith("-")) {
+      hunk.push({ type: "del", text: text.slice(1), oldLine: oldLine++ });
+      oldLeft--;
+    } else if (text.startsWith(" ") || text === "") {
+      hunk.push({
+        type: "ctx",
+        text: text.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+      oldLeft--;
+      newLeft--;
+    }
+  }
+
+  if (!covers || !hunk) return null;
+  const at = hunk.findIndex((entry) => entry.newLine === line);
+  if (hunk.length <= HUNK_CONTEXT * 2 + 1 || at === -1) return hunk;
+  return hunk.slice(Math.max(0, at - HUNK_CONTEXT), at + HUNK_CONTEXT + 1);
+};
+
+const renderSnippet = (file: string, content: string, line: number): string => {
+  const lines = content.split("\n");
+  if (line < 1 || line > lines.length) return "";
+
+  const start = Math.max(1, line - SNIPPET_CONTEXT);
+  const end = Math.min(lines.length, line + SNIPPET_CONTEXT);
+  // Highlight from the top of the file so block comments carry over
+  const highlighted = highlightLines(file, lines.slice(0, end));
+
+  const rows = [];
+  for (let number = start; number <= end; number++) {
+    rows.push(
+      `<tr${
+        number === line ? ' class="hit"' : ""
+      }><td class="ln">${number}</td><td class="code">${
+        highlighted[number - 1]
+      }</td></tr>`
+    );
+  }
+  return `<div class="block"><div class="block-title">Code at line ${line}</div><table class="code">${rows.join(
+    ""
+  )}</table></div>`;
+};
+
+const renderHunk = (file: string, hunk: HunkLine[], line: number): string => {
+  const highlighted = highlightLines(
+    file,
+    hunk.map((entry) => entry.text)
+  );
+  const sign = { add: "+", del: "-", ctx: " " };
+  const rows = hunk.map(
+    (entry, index) =>
+      `<tr class="${entry.type}${
+        entry.newLine === line && entry.type !== "del" ? " hit" : ""
+      }"><td class="ln">${entry.oldLine ?? ""}</td><td class="ln">${
+        entry.newLine ?? ""
+      }</td><td class="sign">${sign[entry.type]}</td><td class="code">${
+        highlighted[index]
+      }</td></tr>`
+  );
+  return `<div class="block"><div class="block-title">Change</div><table class="code diff">${rows.join(
+    ""
+  )}</table></div>`;
+};
+
+const renderTags = (issue: Issue): string =>
+  [
+    issue.category,
+    issue.rule,
+    issue.source === "static" ? "static check" : undefined,
+    issue.carriedFrom
+      ? `carried forward from ${issue.carriedFrom.slice(0, 8)}`
+      : undefined,
+    issue.personas?.length
+      ? `found by ${issue.personas.join(", ")}`
+      : undefined,
+    issue.confidence !== undefined
+      ? `confidence ${Math.round(issue.confidence * 100)}%`
+      : undefined,
+  ]
+    .filter((tag): tag is string => !!tag)
+    .map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`)
+    .join("");
+
+const renderFinding = (
+  issue: Issue,
+  content: string | null,
+  fileDiff: string | undefined
+): string => {
+  const severity = REVIEW_SEVERITY[issue.severity];
+  const hunk =
+    fileDiff && issue.line > 0 ? findHunk(fileDiff, issue.line) : null;
+
+  return `<article class="finding" data-severity="${severity}">
+<header><span class="badge ${severity}">${
+    SEVERITY_LABEL[issue.severity]
+  }</span> <strong>${escapeHtml(issue.title || issue.description)}</strong>${
+    issue.line > 0 ? ` <span class="where">line ${issue.line}</span>` : ""
+  }</header>
+<div class="tags">${renderTags(issue)}</div>
+${issue.title ? `<p>${escapeHtml(issue.description)}</p>` : ""}
+${
+  issue.suggestion
+    ? `<div class="fix"><strong>Fix:</strong> ${escapeHtml(
+        issue.suggestion
+      )}</div>`
+    : ""
+}
+${
+  content && issue.line > 0
+    ? renderSnippet(issue.file, content, issue.line)
+    : ""
+}
+${hunk ? renderHunk(issue.file, hunk, issue.line) : ""}
+</article>`;
+};
+
+const STYLE = `
+:root { --critical: #c62828; --major: #ef6c00; --minor: #1565c0; --pass: #2e7d32; --border: #d0d7de; --muted: #57606a; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; background: #f6f8fa; }
+main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+.summary { background: #fff; border: 1px solid var(--border); border-radius: 8px; padding: 20px; margin-bottom: 16px; }
+.summary h1 { margin: 0 0 8px; font-size: 22px; }
+.decision { display: inline-block; padding: 2px 12px; border-radius: 12px; color: #fff; font-weight: 600; }
+.decision.PASS { background: var(--pass); }
+.decision.FAIL { background: var(--critical); }
+.counts { display: flex; gap: 12px; flex-wrap: wrap; margin: 12px 0 0; }
+.count { border: 1px solid var(--border); border-radius: 6px; padding: 6px 12px; background: #f6f8fa; }
+.count b { font-size: 18px; }
+.meta { color: var(--muted); margin-top: 8px; }
+.note { border-left: 4px solid var(--border); padding: 4px 12px; margin: 12px 0 0; background: #f6f8fa; white-space: pre-wrap; }
+.note.mismatch { border-color: var(--major); }
+.toolbar { display: flex; gap: 16px; align-items: center; flex-wrap: wrap; position: sticky; top: 0; background: #f6f8fa; padding: 8px 0; z-index: 1; }
+.toolbar button { border: 1px solid var(--border); background: #fff; border-radius: 6px; padding: 4px 10px; cursor: pointer; }
+details.file { background: #fff; border: 1px solid var(--border); border-radius: 8px; margin-bottom: 12px; }
+details.file > summary { cursor: pointer; padding: 10px 16px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-weight: 600; }
+details.file > summary .badge { margin-left: 6px; }
+.finding { border-top: 1px solid var(--border); padding: 12px 16px; }
+.finding p { margin: 8px 0; white-space: pre-wrap; }
+.badge { display: inline-block; padding: 0 8px; border-radius: 10px; color: #fff; font-size: 12px; font-weight: 600; }
+.badge.critical { background: var(--critical); }
+.badge.major { background: var(--major); }
+.badge.minor { background: var(--minor); }
+.where { color: var(--muted); }
+.tag { display: inline-block; margin: 4px 6px 0 0; padding: 0 6px; border: 1px solid var(--border); border-radius: 4px; font-size: 12px; color: var(--muted); }
+.fix { margin: 8px 0; padding: 8px 12px; background: #f0f7f0; border-radius: 6px; white-space: pre-wrap; }
+.block { margin-top: 8px; border: 1px solid var(--border); border-radius: 6px; overflow: auto; }
+.block-title { padding: 2px 8px; font-size: 12px; color: var(--muted); background: #f6f8fa; border-bottom: 1px solid var(--border); }
+table.code { border-collapse: collapse; width: 100%; font: 12px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; }
+table.code td { padding: 0 8px; white-space: pre; vertical-align: top; }
+table.code td.ln { width: 1%; text-align: right; color: var(--muted); user-select: none; }
+table.code td.sign { width: 1%; user-select: none; }
+table.code tr.add { background: #e6ffec; }
+table.code tr.del { background: #ffebe9; }
+table.code tr.hit { outline: 2px solid #d4a72c; outline-offset: -2px; }
+.k { color: #cf222e; } .s { color: #0a3069; } .c { color: #6e7781; font-style: italic; } .n { color: #0550ae; }
+section.panel { background: #fff; border: 1px solid var(--border); border-radius: 8px; padding: 16px 20px; margin-bottom: 12px; }
+section.panel h2 { margin-top: 0; font-size: 16px; }
+.prose { white-space: pre-wrap; }
+`;
+
+const SCRIPT = `
+(function () {
+  var boxes = document.querySelectorAll("[data-filter]");
+  function apply() {
+    var shown = {};
+    boxes.forEach(function (box) { shown[box.value] = box.checked; });
+    document.querySelectorAll(".finding").forEach(function (finding) {
+      finding.hidden = !shown[finding.dataset.severity];
+    });
+    document.querySelectorAll("details.file").forEach(function (file) {
+      var findings = file.querySelectorAll(".finding");
+      var visible = file.querySelectorAll(".finding:not([hidden])");
+      file.hidden = findings.length > 0 && visible.length === 0;
+    });
+  }
+  boxes.forEach(function (box) { box.addEventListener("change", apply); });
+  document.querySelectorAll("[data-toggle]").forEach(function (button) {
+    button.addEventListener("click", function () {
+      var open = button.dataset.toggle === "open";
+      document.querySelectorAll("details.file").forEach(function (file) { file.open = open; });
+    });
+  });
+})();
+`;
+
+/**
+ * Renders a review as one self-contained HTML page: a summary header, a
+ * severity filter and a collapsible section per file, where each finding
+ * shows the code around it and the diff hunk that touched it. Styles and
+ * script are inline so the file works offline and as a CI artifact.
+ */
+export const buildHtmlReport = (
+  report: ReviewReport,
+  repoPath: string,
+  branchChanges?: BranchChanges
+): string => {
+  const fileDiffs = branchChanges
+    ? splitDiffByFile(branchChanges.diffContent || "")
+    : {};
+  const readContent = (file: string) =>
+    branchChanges ? readChangedFile(repoPath, branchChanges, file) : null;
+
+  const byFile = new Map<string, Issue[]>();
+  report.issues.forEach((issue) => {
+    const file = issue.file.replace(/^\.?\//, "");
+    byFile.set(file, [...(byFile.get(file) || []), issue]);
+  });
+  const rank = (issues: Issue[]) =>
+    Math.min(...issues.map((issue) => SEVERITY_ORDER.indexOf(issue.severity)));
+  const files = Array.from(byFile.entries()).sort(
+    ([fileA, a], [fileB, b]) => rank(a) - rank(b) || fileA.localeCompare(fileB)
+  );
+
+  const fileSections = files.map(([file, issues]) => {
+    const content = readContent(file);
+    const sorted = [...issues].sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) -
+          SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line
+    );
+    const badges = SEVERITY_ORDER.map((severity) => {
+      const count = issues.filter(
+        (issue) => issue.severity === severity
+      ).length;
+      return count > 0
+        ? `<span class="badge ${REVIEW_SEVERITY[severity]}">${count}</span>`
+        : "";
+    }).join("");
+    return `<details class="file" open><summary>${escapeHtml(
+      file
+    )}${badges}</summary>
+${sorted
+  .map((issue) => renderFinding(issue, content, fileDiffs[file]))
+  .join("\n")}
+</details>`;
+  });
+
+  const cleanFiles = (branchChanges?.changedFiles || [])
+    .map((change: any) => String(change.file))
+    .filter((file: string) => !byFile.has(file));
+
+  const count = (severity: Issue["severity"]) =>
+    report.issues.filter((issue) => issue.severity === severity).length;
+  const title = branchChanges
+    ? `${branchChanges.currentBranch} vs ${branchChanges.baseBranch}`
+    : report.repositoryUrl;
+  const decision = report.decision || "PASS";
+
+  const notes = [
+    report.incomplete
+      ? `<div class="note mismatch"><strong>Incomplete:</strong> ${escapeHtml(
+          report.incomplete
+        )}. The findings cover only what was reviewed.</div>`
+      : "",
+    report.missingPersonas?.length
+      ? `<div class="note mismatch"><strong>Incomplete:</strong> no valid result from personas ${escapeHtml(
+          report.missingPersonas.join(", ")
+        )}, so their concerns were not assessed.</div>`
+      : "",
+    report.votes
+      ? `<div class="note">Decided by ${
+          report.votes.runs
+        } independent reviews, ${report.votes.failVotes} of them FAIL${
+          report.votes.invalidVotes
+            ? ` and ${report.votes.invalidVotes} without a valid result`
+            : ""
+        }. Findings needed ${Math.round(
+          report.votes.threshold * 100
+        )}% agreement; ${
+          report.votes.droppedFindings
+        } below it were dropped.</div>`
+      : "",
+    report.intentCheck
+      ? `<div class="note${
+          report.intentCheck.matches ? "" : " mismatch"
+        }"><strong>Commit message ${
+          report.intentCheck.matches ? "matches" : "does not match"
+        } the change.</strong>\n${escapeHtml(
+          report.intentCheck.message.trim()
+        )}\n\n${escapeHtml(report.intentCheck.explanation)}</div>`
+      : "",
+  ].join("");
+
+  const suggestions =
+    report.suggestions.length > 0
+      ? `<section class="panel"><h2>Suggestions</h2><ul>${report.suggestions
+          .map(
+            (suggestion) =>
+              `<li><span class="tag">${suggestion.impact}</span>${escapeHtml(
+                suggestion.description
+              )}${
+                suggestion.file
+                  ? ` <span class="where">(${escapeHtml(
+                      suggestion.file
+                    )})</span>`
+                  : ""
+              }</li>`
+          )
+          .join("")}</ul></section>`
+      : "";
+
+  const suppressed =
+    report.suppressedIssues && report.suppressedIssues.length > 0
+      ? `<section class="panel"><h2>Suppressed Findings (${
+          report.suppressedIssues.length
+        })</h2><ul>${report.suppressedIssues
+          .map(
+            ({ issue, source }) =>
+              `<li>${escapeHtml(
+                `${issue.file}:${issue.line} - ${
+                  issue.title || issue.description
+                }`
+              )} <span class="tag">${
+                REVIEW_SEVERITY[issue.severity]
+              }, ${source}</span></li>`
+          )
+          .join("")}</ul></section>`
+      : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Steelheart Review: ${escapeHtml(title)} (${decision})</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<section class="summary">
+<h1>Code Review: ${escapeHtml(title)}</h1>
+<span class="decision ${decision}">${decision}</span>
+<p>${escapeHtml(report.summary)}</p>
+<div class="counts">
+<div class="count"><b>${count("critical")}</b> critical</div>
+<div class="count"><b>${count("warning")}</b> major</div>
+<div class="count"><b>${count("info")}</b> minor</div>
+<div class="count"><b>${report.filesAnalyzed}</b> files reviewed</div>
+</div>
+${notes}
+<div class="meta">Generated ${escapeHtml(new Date().toISOString())}${
+    branchChanges?.headSha
+      ? ` at ${escapeHtml(branchChanges.headSha.slice(0, 8))}`
+      : ""
+  }</div>
+</section>
+<div class="toolbar">
+<strong>Show:</strong>
+<label><input type="checkbox" data-filter value="critical" checked> Critical</label>
+<label><input type="checkbox" data-filter value="major" checked> Major</label>
+<label><input type="checkbox" data-filter value="minor" checked> Minor</label>
+<button type="button" data-toggle="open">Expand all</button>
+<button type="button" data-toggle="close">Collapse all</button>
+</div>
+${
+  fileSections.length > 0
+    ? fileSections.join("\n")
+    : `<section class="panel">No findings.</section>`
+}
+${
+  cleanFiles.length > 0
+    ? `<details class="file"><summary>Files without findings (${
+        cleanFiles.length
+      })</summary><ul>${cleanFiles
+        .map((file: string) => `<li>${escapeHtml(file)}</li>`)
+        .join("")}</ul></details>`
+    : ""
+}
+<section class="panel"><h2>Detailed Analysis</h2><div class="prose">${escapeHtml(
+    report.overallAssessment
+  )}</div></section>
+${suggestions}
+${suppressed}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+};
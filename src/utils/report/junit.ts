@@ -0,0 +1,100 @@
+import { Issue, ReviewReport } from "../../types";
+import { BranchChanges } from "../../types/cli";
+import { REVIEW_SEVERITY } from "../review/structured-review";
+
+// Critical and major findings fail a file's test case; minor ones are listed
+const FAILING_SEVERITIES: Issue["severity"][] = ["critical", "warning"];
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters other than tab and newlines are invalid in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const describeIssue = (issue: Issue): string =>
+  [
+    `${issue.line > 0 ? `${issue.file}:${issue.line}` : issue.file} [${
+      REVIEW_SEVERITY[issue.severity]
+    }, ${issue.rule || issue.category}] ${issue.title || issue.description}`,
+    issue.title ? `  ${issue.description}` : "",
+    issue.suggestion ? `  Fix: ${issue.suggestion}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Converts a review report into JUnit XML with one test case per reviewed
+ * file. A file with critical or major findings fails; minor findings are
+ * listed in the test case output without failing it. Files are taken from
+ * the reviewed changes when given, plus any file a finding points at.
+ */
+export const buildJUnitReport = (
+  report: ReviewReport,
+  branchChanges?: BranchChanges
+): string => {
+  const byFile = new Map<string, Issue[]>();
+  (branchChanges?.changedFiles || []).forEach((change: any) =>
+    byFile.set(String(change.file), [])
+  );
+  report.issues.forEach((issue) => {
+    const file = issue.file.replace(/^\.?\//, "");
+    byFile.set(file, [...(byFile.get(file) || []), issue]);
+  });
+
+  const suiteName = branchChanges
+    ? `steelheart review: ${branchChanges.currentBranch}`
+    : "steelheart review";
+  let failures = 0;
+
+  const testCases = Array.from(byFile.entries()).map(([file, issues]) => {
+    const failing = issues.filter((issue) =>
+      FAILING_SEVERITIES.includes(issue.severity)
+    );
+    const minor = issues.filter(
+      (issue) => !FAILING_SEVERITIES.includes(issue.severity)
+    );
+    if (failing.length > 0) failures++;
+
+    const failure =
+      failing.length > 0
+        ? `\n      <failure type="${
+            failing.some((issue) => issue.severity === "critical")
+              ? "critical"
+              : "major"
+          }" message="${escapeXml(
+            `${failing.length} critical or major finding${
+              failing.length === 1 ? "" : "s"
+            }`
+          )}">${escapeXml(failing.map(describeIssue).join("\n\n"))}</failure>`
+        : "";
+    const output =
+      minor.length > 0
+        ? `\n      <system-out>${escapeXml(
+            minor.map(describeIssue).join("\n\n")
+          )}</system-out>`
+        : "";
+
+    return `    <testcase classname="steelheart" name="${escapeXml(
+      file
+    )}" file="${escapeXml(file)}">${failure}${output}${
+      failure || output ? "\n    " : ""
+    }</testcase>`;
+  });
+
+  const tests = testCases.length;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="steelheart" tests="${tests}" failures="${failures}" errors="0">
+  <testsuite name="${escapeXml(
+    suiteName
+  )}" tests="${tests}" failures="${failures}" errors="0" skipped="0" timestamp="${new Date()
+    .toISOString()
+    .slice(0, 19)}">
+${testCases.join("\n")}
+  </testsuite>
+</testsuites>
+`;
+};
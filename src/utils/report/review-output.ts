@@ -0,0 +1,96 @@
+import { InvalidArgumentError } from "commander";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ReviewReport } from "../../types";
+import { BranchChanges } from "../../types/cli";
+import { buildCodeClimateReport } from "./codeclimate";
+import { buildHtmlReport } from "./html-report";
+import { buildJUnitReport } from "./junit";
+import { buildSarifLog } from "./sarif";
+
+export type ReviewFormat =
+  | "markdown"
+  | "sarif"
+  | "html"
+  | "junit"
+  | "codeclimate";
+
+export const REVIEW_FORMATS: ReviewFormat[] = [
+  "markdown",
+  "sarif",
+  "html",
+  "junit",
+  "codeclimate",
+];
+
+// Accepts a comma-separated list such as "markdown,sarif"
+export const parseReviewFormats = (value: string): ReviewFormat[] => {
+  const formats = value
+    .split(",")
+    .map((format) => format.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = formats.filter(
+    (format) => !REVIEW_FORMATS.includes(format as ReviewFormat)
+  );
+  if (unknown.length > 0) {
+    throw new InvalidArgumentError(
+      `Unknown review format: ${unknown.join(
+        ", "
+      )}. Supported: ${REVIEW_FORMATS.join(", ")}`
+    );
+  }
+
+  return formats as ReviewFormat[];
+};
+
+/**
+ * Writes the additional review formats next to the markdown report.
+ * Markdown itself is always written by CodeReviewService. The HTML report
+ * shows code and diff hunks, and the JUnit report lists files without
+ * findings, only when the reviewed changes are passed.
+ */
+export const writeReviewFormats = (
+  report: ReviewReport,
+  formats: ReviewFormat[],
+  outputDir: string,
+  repoPath: string,
+  branchChanges?: BranchChanges
+): string[] => {
+  const date = new Date().toISOString().split("T")[0];
+  const written: string[] = [];
+
+  mkdirSync(outputDir, { recursive: true });
+
+  if (formats.includes("sarif")) {
+    const filePath = join(outputDir, `branch-review-${date}.sarif`);
+    writeFileSync(
+      filePath,
+      JSON.stringify(buildSarifLog(report, repoPath), null, 2)
+    );
+    written.push(filePath);
+  }
+
+  if (formats.includes("html")) {
+    const filePath = join(outputDir, `branch-review-${date}.html`);
+    writeFileSync(filePath, buildHtmlReport(report, repoPath, branchChanges));
+    written.push(filePath);
+  }
+
+  if (formats.includes("junit")) {
+    const filePath = join(outputDir, `branch-review-${date}.junit.xml`);
+    writeFileSync(filePath, buildJUnitReport(report, branchChanges));
+    written.push(filePath);
+  }
+
+  if (formats.includes("codeclimate")) {
+    const filePath = join(outputDir, `branch-review-${date}.codeclimate.json`);
+    writeFileSync(
+      filePath,
+      JSON.stringify(buildCodeClimateReport(report, repoPath), null, 2)
+    );
+    written.push(filePath);
+  }
+
+  return written;
+};
@@ -0,0 +1,149 @@
+import { pathToFileURL } from "url";
+import { Issue, ReviewReport } from "../../types";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = "error" | "warning" | "note";
+
+// The subset of SARIF 2.1.0 this module writes
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }>;
+  rank?: number;
+  properties?: { rule: string };
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: {
+      driver: { name: string; informationUri: string; rules: SarifRule[] };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: SarifResult[];
+    properties: { decision?: ReviewReport["decision"]; summary: string };
+  }>;
+}
+
+const SARIF_LEVEL: Record<Issue["severity"], SarifLevel> = {
+  critical: "error",
+  warning: "warning",
+  info: "note",
+};
+
+const CATEGORY_DESCRIPTIONS: Record<Issue["category"], string> = {
+  bug: "Logic errors and defects that break expected behaviour",
+  security: "Vulnerabilities, exposed secrets and unsafe input handling",
+  performance: "Inefficient algorithms, leaks and expensive operations",
+  style: "Formatting, naming and readability",
+  maintainability: "Structure, duplication, missing tests and documentation",
+};
+
+export const getSarifRuleId = (category: Issue["category"]): string =>
+  `steelheart/${category}`;
+
+/**
+ * Converts a review report into a SARIF 2.1.0 log with one rule per issue
+ * category. Paths are relative to %SRCROOT% so viewers can map them onto
+ * any checkout of the repository.
+ */
+export const buildSarifLog = (
+  report: ReviewReport,
+  repoPath: string
+): SarifLog => {
+  const categories = Array.from(
+    new Set(report.issues.map((issue) => issue.category))
+  ).sort();
+
+  const rules = categories.map(
+    (category): SarifRule => ({
+      id: getSarifRuleId(category),
+      name: category.charAt(0).toUpperCase() + category.slice(1),
+      shortDescription: { text: `${category} findings` },
+      fullDescription: { text: CATEGORY_DESCRIPTIONS[category] },
+      defaultConfiguration: { level: "warning" },
+    })
+  );
+
+  const results = report.issues.map(
+    (issue): SarifResult => ({
+      ruleId: getSarifRuleId(issue.category),
+      ruleIndex: categories.indexOf(issue.category),
+      level: SARIF_LEVEL[issue.severity],
+      message: {
+        text: [issue.title, issue.description, issue.suggestion]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: issue.file.replace(/\\/g, "/"),
+              uriBaseId: "%SRCROOT%",
+            },
+            // SARIF lines are 1-based; file-level findings carry no region
+            ...(issue.line > 0
+              ? {
+                  region: {
+                    startLine: issue.line,
+                    ...(issue.column ? { startColumn: issue.column } : {}),
+                  },
+                }
+              : {}),
+          },
+        },
+      ],
+      // SARIF rank is 0-100, higher meaning more confident
+      ...(issue.confidence !== undefined
+        ? { rank: Math.round(issue.confidence * 100) }
+        : {}),
+      ...(issue.rule ? { properties: { rule: issue.rule } } : {}),
+    })
+  );
+
+  const rootUri = pathToFileURL(repoPath).href;
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "Steelheart AI",
+            informationUri: "https://github.com/steelheart-ai/steelheart-ai",
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          "%SRCROOT%": {
+            uri: rootUri.endsWith("/") ? rootUri : `${rootUri}/`,
+          },
+        },
+        results,
+        properties: {
+          decision: report.decision,
+          summary: report.summary,
+        },
+      },
+    ],
+  };
+};
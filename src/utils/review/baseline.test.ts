@@ -0,0 +1,105 @@
+import { Issue, ReviewReport } from "../../types";
+import { applyBaseline, fingerprintIssue, ReviewBaseline } from "./baseline";
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  file: "src/app.ts",
+  line: 2,
+  severity: "critical",
+  category: "security",
+  title: "SQL built from user input",
+  description: "The query concatenates request parameters.",
+  ...overrides,
+});
+
+const files =
+  (contents: Record<string, string>) =>
+  (file: string): string | null =>
+    contents[file] ?? null;
+
+describe("fingerprintIssue", () => {
+  const query = 'db.query("SELECT * FROM users WHERE id = " + id);';
+
+  it("fingerprints the reviewed content, not the working tree", () => {
+    const reviewed = files({ "src/app.ts": `init();\n${query}\n` });
+    const edited = files({ "src/app.ts": "init();\nfixed();\n" });
+
+    expect(fingerprintIssue("/repo", issue(), reviewed)).not.toBe(
+      fingerprintIssue("/repo", issue(), edited)
+    );
+    expect(fingerprintIssue("/repo", issue(), reviewed)).toBe(
+      fingerprintIssue(
+        "/repo",
+        issue(),
+        files({ "src/app.ts": `init();\n   ${query}   \n` })
+      )
+    );
+  });
+
+  it("survives the finding moving to another line", () => {
+    const before = files({ "src/app.ts": `init();\n${query}\n` });
+    const after = files({ "src/app.ts": `// header\n\ninit();\n${query}\n` });
+
+    expect(fingerprintIssue("/repo", issue({ line: 4 }), after)).toBe(
+      fingerprintIssue("/repo", issue({ line: 2 }), before)
+    );
+  });
+
+  it("leaves line references out of the title fallback", () => {
+    const unreadable = files({});
+
+    expect(
+      fingerprintIssue(
+        "/repo",
+        issue({ line: 12, title: "SQL built from user input on line 12" }),
+        unreadable
+      )
+    ).toBe(
+      fingerprintIssue(
+        "/repo",
+        issue({ line: 30, title: "SQL built from user input on line 30" }),
+        unreadable
+      )
+    );
+  });
+
+  it("keeps different rules apart", () => {
+    const content = files({ "src/app.ts": `init();\n${query}\n` });
+
+    expect(fingerprintIssue("/repo", issue(), content)).not.toBe(
+      fingerprintIssue("/repo", issue({ category: "bug" }), content)
+    );
+  });
+});
+
+describe("applyBaseline", () => {
+  it("suppresses known findings and recounts the rest", () => {
+    const content = files({ "src/app.ts": "init();\nrun(input);\nstop();\n" });
+    const known = issue();
+    const report = {
+      decision: "FAIL",
+      issues: [known, issue({ line: 3, title: "New problem" })],
+      criticalIssues: 2,
+      warningIssues: 0,
+      infoIssues: 0,
+    } as ReviewReport;
+    const baseline: ReviewBaseline = {
+      version: 1,
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      entries: [
+        {
+          fingerprint: fingerprintIssue("/repo", known, content),
+          file: known.file,
+          rule: known.category,
+          addedAt: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    };
+
+    expect(applyBaseline("/repo", report, content, baseline)).toBe(1);
+    expect(report.issues.map((finding) => finding.line)).toEqual([3]);
+    expect(report.suppressedIssues).toEqual([
+      { issue: known, source: "baseline" },
+    ]);
+    expect(report.criticalIssues).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Issue, ReviewReport } from "../../types";
+import { recountIssues } from "./structured-review";
+
+export const BASELINE_FILE = ".steelheart-baseline.json";
+
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  rule: string;
+  title?: string;
+  addedAt: string;
+}
+
+export interface ReviewBaseline {
+  version: 1;
+  updatedAt: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineUpdate {
+  path: string;
+  added: number;
+  total: number;
+}
+
+// Whitespace-insensitive so reformatting does not invalidate the baseline
+const normalizeSnippet = (snippet: string): string =>
+  snippet.replace(/\s+/g, " ").trim();
+
+// Titles often quote where the finding is ("on line 42"); the position
+// must not be part of its identity
+const stripLineReferences = (text: string): string =>
+  text.replace(/\b(?:lines?|L)\s*\d+(?:\s*[-–]\s*\d+)?\b|:\d+\b/gi, "");
+
+const readWorkingTreeFile = (repoPath: string, file: string): string | null => {
+  const fullPath = join(repoPath, file);
+  return existsSync(fullPath) ? readFileSync(fullPath, "utf-8") : null;
+};
+
+const readIssueSnippet = (
+  issue: Issue,
+  readContent: (file: string) => string | null
+): string | null => {
+  if (issue.line <= 0) return null;
+
+  try {
+    const lines = readContent(issue.file.replace(/^\.?\//, ""))?.split("\n");
+    const snippet = normalizeSnippet(lines?.[issue.line - 1] || "");
+    return snippet || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Fingerprint of a finding built from its file, rule (or category) and the
+ * normalized source line it points at. Line numbers are left out so the
+ * fingerprint survives unrelated edits above the finding; findings without
+ * a readable line fall back to their title with line references removed.
+ * `readContent` supplies the reviewed file contents when they do not come
+ * from the working tree.
+ */
+export const fingerprintIssue = (
+  repoPath: string,
+  issue: Issue,
+  readContent: (file: string) => string | null = (file) =>
+    readWorkingTreeFile(repoPath, file)
+): string => {
+  const snippet =
+    readIssueSnippet(issue, readContent) ||
+    normalizeSnippet(
+      stripLineReferences(issue.title || issue.description)
+    ).toLowerCase();
+
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        issue.file.replace(/^\.?\//, ""),
+        issue.rule || issue.category,
+        snippet,
+      ])
+    )
+    .digest("hex")
+    .slice(0, 32);
+};
+
+export const loadBaseline = (repoPath: string): ReviewBaseline | null => {
+  const baselinePath = join(repoPath, BASELINE_FILE);
+  if (!existsSync(baselinePath)) return null;
+
+  try {
+    const baseline = JSON.parse(readFileSync(baselinePath, "utf-8"));
+    return Array.isArray(baseline.entries) ? baseline : null;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${BASELINE_FILE}: ${error}`);
+    return null;
+  }
+};
+
+/**
+ * Fingerprints every issue in the report and moves those already in the
+ * baseline to `suppressedIssues`. Severity counts are recomputed from what
+ * is left. Returns the number of suppressed findings.
+ */
+export const applyBaseline = (
+  repoPath: string,
+  report: ReviewReport,
+  readContent: (file: string) => string | null = (file) =>
+    readWorkingTreeFile(repoPath, file),
+  baseline: ReviewBaseline | null = loadBaseline(repoPath)
+): number => {
+  // Each file is read once however many findings it has
+  const contents = new Map<string, string | null>();
+  const readOnce = (file: string): string | null => {
+    if (!contents.has(file)) contents.set(file, readContent(file));
+    return contents.get(file) as string | null;
+  };
+  report.issues.forEach((issue) => {
+    issue.fingerprint = fingerprintIssue(repoPath, issue, readOnce);
+  });
+
+  if (!baseline) return 0;
+
+  const known = new Set(baseline.entries.map((entry) => entry.fingerprint));
+  const suppressed = report.issues.filter((issue) =>
+    known.has(issue.fingerprint as string)
+  );
+  if (suppressed.length === 0) return 0;
+
+  report.issues = report.issues.filter(
+    (issue) => !known.has(issue.fingerprint as string)
+  );
+  report.suppressedIssues = [
+    ...(report.suppressedIssues || []),
+    ...suppressed.map((issue) => ({ issue, source: "baseline" as const })),
+  ];
+  recountIssues(report);
+
+  return suppressed.length;
+};
+
+/**
+ * Adds the report's findings to the baseline file. Existing entries are
+ * kept, so running it on several branches accumulates accepted findings;
+ * delete the file to start over.
+ */
+export const updateBaseline = (
+  repoPath: string,
+  issues: Issue[]
+): BaselineUpdate => {
+  const baselinePath = join(repoPath, BASELINE_FILE);
+  const now = new Date().toISOString();
+  const entries = loadBaseline(repoPath)?.entries || [];
+  const known = new Set(entries.map((entry) => entry.fingerprint));
+
+  let added = 0;
+  for (const issue of issues) {
+    const fingerprint = issue.fingerprint || fingerprintIssue(repoPath, issue);
+    if (known.has(fingerprint)) continue;
+
+    known.add(fingerprint);
+    entries.push({
+      fingerprint,
+      file: issue.file,
+      rule: issue.rule || issue.category,
+      title: issue.title || issue.description,
+      addedAt: now,
+    });
+    added++;
+  }
+
+  const baseline: ReviewBaseline = { version: 1, updatedAt: now, entries };
+  writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + "\n");
+
+  return { path: baselinePath, added, total: entries.length };
+};
@@ -0,0 +1,55 @@
+import { numberLines, packIntoBatches, splitByTokens } from "./batching";
+
+describe("numberLines", () => {
+  it("prefixes every line with its 1-based number", () => {
+    expect(numberLines("a\nb")).toBe("1: a\n2: b");
+  });
+});
+
+describe("splitByTokens", () => {
+  const text = Array.from({ length: 50 }, (_, i) => `line ${i}`).join("\n");
+
+  it("keeps text that fits in one range", () => {
+    expect(splitByTokens(text, 10000)).toEqual([
+      { startLine: 1, endLine: 50, text },
+    ]);
+  });
+
+  it("splits on line boundaries without dropping content", () => {
+    const ranges = splitByTokens(text, 40);
+
+    expect(ranges.length).toBeGreaterThan(1);
+    expect(ranges.map((range) => range.text).join("\n")).toBe(text);
+    expect(ranges[0].startLine).toBe(1);
+    expect(ranges[ranges.length - 1].endLine).toBe(50);
+    ranges.slice(1).forEach((range, index) => {
+      expect(range.startLine).toBe(ranges[index].endLine + 1);
+    });
+  });
+
+  it("gives a line longer than the limit a range of its own", () => {
+    const long = "word ".repeat(100);
+    const ranges = splitByTokens(`short\n${long}\nshort`, 10);
+
+    expect(ranges.map((range) => range.text)).toEqual(["short", long, "short"]);
+  });
+});
+
+describe("packIntoBatches", () => {
+  const size = (item: number) => item;
+
+  it("packs items in order up to the limit", () => {
+    expect(packIntoBatches([3, 3, 3, 1], size, 6)).toEqual([
+      [3, 3],
+      [3, 1],
+    ]);
+  });
+
+  it("puts an oversized item in a batch of its own", () => {
+    expect(packIntoBatches([1, 10, 1], size, 5)).toEqual([[1], [10], [1]]);
+  });
+
+  it("returns no batches for no items", () => {
+    expect(packIntoBatches([], size, 5)).toEqual([]);
+  });
+});
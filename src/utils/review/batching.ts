@@ -0,0 +1,77 @@
+import { countTokens } from "../usage/tokens";
+
+// Prefixes each line with its 1-based number so the model can cite lines
+export const numberLines = (text: string): string =>
+  text
+    .split("\n")
+    .map((line, index) => `${index + 1}: ${line}`)
+    .join("\n");
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Splits text on line boundaries into ranges of at most `maxTokens` each.
+ * A single line longer than the limit becomes its own range rather than
+ * being cut, so no content is ever dropped.
+ */
+export const splitByTokens = (text: string, maxTokens: number): LineRange[] => {
+  const lines = text.split("\n");
+  const ranges: LineRange[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let startLine = 1;
+
+  lines.forEach((line, index) => {
+    const lineTokens = countTokens(line) + 1;
+    if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+      ranges.push({ startLine, endLine: index, text: current.join("\n") });
+      current = [];
+      currentTokens = 0;
+      startLine = index + 1;
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  });
+
+  if (current.length > 0) {
+    ranges.push({ startLine, endLine: lines.length, text: current.join("\n") });
+  }
+
+  return ranges;
+};
+
+/**
+ * Greedily packs items, in order, into batches whose summed size stays
+ * within `maxTokens`. An item larger than the limit gets a batch of its own;
+ * callers split such items beforehand with splitByTokens.
+ */
+export const packIntoBatches = <T>(
+  items: T[],
+  sizeOf: (item: T) => number,
+  maxTokens: number
+): T[][] => {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+    if (current.length > 0 && currentTokens + size > maxTokens) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += size;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+};
@@ -0,0 +1,60 @@
+import { Issue, ReviewReport } from "../../types";
+import { formatIssueLine } from "./structured-review";
+
+const SEVERITY_BADGE: Record<Issue["severity"], string> = {
+  critical: "🔴 **CRITICAL**",
+  warning: "🟡 **MAJOR**",
+  info: "🔵 **MINOR**",
+};
+
+// Body of an inline comment attached to a single finding
+export const formatIssueComment = (issue: Issue): string => {
+  const headline = issue.title || issue.description;
+  const details =
+    issue.title && issue.description !== issue.title
+      ? `\n\n${issue.description}`
+      : "";
+  const fix = issue.suggestion
+    ? `\n\n**Suggested fix:** ${issue.suggestion}`
+    : "";
+
+  return `${SEVERITY_BADGE[issue.severity]} · ${issue.category}${
+    issue.rule ? ` · \`${issue.rule}\`` : ""
+  } — ${headline}${details}${fix}`;
+};
+
+/**
+ * Summary posted alongside inline comments. Findings that could not be
+ * anchored to a changed line are listed here so nothing is dropped.
+ */
+export const formatReviewSummary = (
+  report: ReviewReport,
+  unanchored: Issue[] = []
+): string => {
+  const count = (severity: Issue["severity"]) =>
+    report.issues.filter((issue) => issue.severity === severity).length;
+  const decision = report.decision === "FAIL" ? "❌ **FAIL**" : "✅ **PASS**";
+
+  const lines = [
+    `## 🤖 Steelheart AI Review: ${decision}`,
+    "",
+    report.summary,
+    "",
+    `| Critical | Major | Minor |`,
+    `| --- | --- | --- |`,
+    `| ${count("critical")} | ${count("warning")} | ${count("info")} |`,
+  ];
+
+  if (unanchored.length > 0) {
+    lines.push("", "### Findings outside the changed lines", "");
+    unanchored.forEach((issue) =>
+      lines.push(
+        `- ${SEVERITY_BADGE[issue.severity]} ${formatIssueLine(issue)} (${
+          issue.category
+        })`
+      )
+    );
+  }
+
+  return lines.join("\n");
+};
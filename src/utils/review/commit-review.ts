@@ -0,0 +1,113 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { BranchReviewResult } from "../../types";
+import { ReviewCommit } from "../git/branch-operations";
+
+export interface CommitReviewEntry {
+  commit: ReviewCommit;
+  // Null when the commit could not be reviewed
+  result: BranchReviewResult | null;
+  gatePassed: boolean;
+  error?: string;
+}
+
+export type CommitVerdict = "PASS" | "FAIL" | "ERROR";
+
+export const commitVerdict = (entry: CommitReviewEntry): CommitVerdict =>
+  !entry.result
+    ? "ERROR"
+    : entry.result.decision === "PASS" && entry.gatePassed
+    ? "PASS"
+    : "FAIL";
+
+// "yes", "no" or "-" when the model did not check the message
+export const messageMatch = (entry: CommitReviewEntry): string => {
+  const check = entry.result?.report?.intentCheck;
+  if (!check) return "-";
+  return check.matches ? "yes" : "no";
+};
+
+const escapeCell = (text: string): string =>
+  text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+export const renderCommitReviewMarkdown = (
+  entries: CommitReviewEntry[],
+  branch: string
+): string => {
+  const lines = [
+    `# Commit-by-Commit Review: ${branch}`,
+    "",
+    `Generated: ${new Date().toISOString()}`,
+    `Commits: ${entries.length}, failed: ${
+      entries.filter((entry) => commitVerdict(entry) !== "PASS").length
+    }, message mismatches: ${
+      entries.filter((entry) => messageMatch(entry) === "no").length
+    }`,
+    "",
+    "| Commit | Verdict | Critical | Major | Minor | Message matches | Subject |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...entries.map((entry) =>
+      [
+        "",
+        `\`${entry.commit.hash.slice(0, 8)}\``,
+        commitVerdict(entry),
+        entry.result?.criticalIssues.length ?? "-",
+        entry.result?.majorIssues.length ?? "-",
+        entry.result?.minorIssues.length ?? "-",
+        messageMatch(entry),
+        escapeCell(entry.commit.subject),
+        "",
+      ]
+        .join(" | ")
+        .trim()
+    ),
+  ];
+
+  entries.forEach((entry) => {
+    lines.push(
+      "",
+      `## ${entry.commit.hash.slice(0, 8)} ${entry.commit.subject}`,
+      "",
+      `Author: ${entry.commit.author}`,
+      `Verdict: ${commitVerdict(entry)}`
+    );
+    if (entry.error) lines.push("", `Review failed: ${entry.error}`);
+
+    const check = entry.result?.report?.intentCheck;
+    if (check) {
+      lines.push(
+        "",
+        `**Commit message ${
+          check.matches ? "matches" : "does not match"
+        } the change.** ${check.explanation}`
+      );
+    }
+
+    const result = entry.result;
+    if (!result) return;
+    const sections: Array<[string, string[]]> = [
+      ["Critical", result.criticalIssues],
+      ["Major", result.majorIssues],
+      ["Minor", result.minorIssues],
+    ];
+    sections.forEach(([label, issues]) => {
+      if (issues.length === 0) return;
+      lines.push("", `### ${label}`, "");
+      issues.forEach((issue) => lines.push(`- ${issue}`));
+    });
+  });
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const saveCommitReview = (
+  entries: CommitReviewEntry[],
+  branch: string,
+  outputDir: string
+): string => {
+  const date = new Date().toISOString().split("T")[0];
+  const filePath = join(outputDir, `commit-review-${date}.md`);
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(filePath, renderCommitReviewMarkdown(entries, branch));
+  return filePath;
+};
@@ -0,0 +1,63 @@
+import { Issue } from "../../types";
+import {
+  getChangedLinesFromDiff,
+  splitDiffByFile,
+} from "../git/branch-operations";
+
+// How far a reported line may be from an added line and still be anchored
+const LINE_SNAP_TOLERANCE = 3;
+
+export interface DiffAnchoredIssue {
+  issue: Issue;
+  file: string;
+  line: number;
+}
+
+export interface DiffMapping {
+  inline: DiffAnchoredIssue[];
+  unmapped: Issue[];
+}
+
+/**
+ * Anchors findings to added lines of the diff so they can be posted as inline
+ * review comments. Models are often a line or two off, so a finding snaps to
+ * the nearest added line within LINE_SNAP_TOLERANCE; anything further away, or
+ * in a file without added lines, is returned as unmapped.
+ */
+export const mapIssuesToDiff = (
+  issues: Issue[],
+  diffContent: string
+): DiffMapping => {
+  const fileDiffs = splitDiffByFile(diffContent);
+  const addedLines: Record<string, number[]> = {};
+
+  Object.entries(fileDiffs).forEach(([file, diff]) => {
+    addedLines[file] = getChangedLinesFromDiff(diff)
+      .filter((line) => line.type === "added")
+      .map((line) => line.lineNumber);
+  });
+
+  const mapping: DiffMapping = { inline: [], unmapped: [] };
+
+  for (const issue of issues) {
+    const file = issue.file.replace(/^\.?\//, "");
+    const candidates = addedLines[file] || [];
+
+    if (issue.line <= 0 || candidates.length === 0) {
+      mapping.unmapped.push(issue);
+      continue;
+    }
+
+    const nearest = candidates.reduce((best, line) =>
+      Math.abs(line - issue.line) < Math.abs(best - issue.line) ? line : best
+    );
+
+    if (Math.abs(nearest - issue.line) <= LINE_SNAP_TOLERANCE) {
+      mapping.inline.push({ issue, file, line: nearest });
+    } else {
+      mapping.unmapped.push(issue);
+    }
+  }
+
+  return mapping;
+};
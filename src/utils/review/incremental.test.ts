@@ -0,0 +1,109 @@
+import { Issue } from "../../types";
+import { carryForwardFindings } from "./incremental";
+
+const issue = (file: string, line: number): Issue => ({
+  file,
+  line,
+  severity: "warning",
+  category: "bug",
+  description: `Finding at ${file}:${line}`,
+});
+
+const diff = (...lines: string[]): string => lines.join("\n");
+
+describe("carryForwardFindings", () => {
+  it("shifts findings below inserted lines", () => {
+    const { carried, dropped } = carryForwardFindings(
+      [issue("app.js", 2), issue("app.js", 10)],
+      diff(
+        "diff --git a/app.js b/app.js",
+        "index 1111111..2222222 100644",
+        "--- a/app.js",
+        "+++ b/app.js",
+        "@@ -4,0 +5,2 @@ function run() {",
+        "+  check();",
+        "+  log();"
+      )
+    );
+
+    expect(carried.map((finding) => finding.line)).toEqual([2, 12]);
+    expect(dropped).toBe(0);
+  });
+
+  it("drops findings on deleted lines and shifts the rest up", () => {
+    const { carried, dropped } = carryForwardFindings(
+      [issue("app.js", 2), issue("app.js", 3), issue("app.js", 8)],
+      diff(
+        "diff --git a/app.js b/app.js",
+        "--- a/app.js",
+        "+++ b/app.js",
+        "@@ -2,3 +2,1 @@",
+        " keep();",
+        "-remove();",
+        "-removeToo();"
+      )
+    );
+
+    expect(carried.map((finding) => finding.line)).toEqual([2, 6]);
+    expect(dropped).toBe(1);
+  });
+
+  it("reads removed lines that look like file headers as removals", () => {
+    const { carried, dropped } = carryForwardFindings(
+      [issue("schema.sql", 2), issue("schema.sql", 5)],
+      diff(
+        "diff --git a/schema.sql b/schema.sql",
+        "--- a/schema.sql",
+        "+++ b/schema.sql",
+        "@@ -1,3 +1,3 @@",
+        " CREATE TABLE users (",
+        "--- legacy column",
+        "+++counter",
+        " );"
+      )
+    );
+
+    expect(carried.map((finding) => finding.line)).toEqual([5]);
+    expect(dropped).toBe(1);
+  });
+
+  it("follows renamed files", () => {
+    const { carried } = carryForwardFindings(
+      [issue("src/old.js", 4)],
+      diff(
+        "diff --git a/src/old.js b/src/new.js",
+        "similarity index 90%",
+        "rename from src/old.js",
+        "rename to src/new.js",
+        "--- a/src/old.js",
+        "+++ b/src/new.js",
+        "@@ -1,1 +1,2 @@",
+        "+'use strict';",
+        " start();"
+      )
+    );
+
+    expect(carried).toEqual([
+      { ...issue("src/old.js", 4), file: "src/new.js", line: 5 },
+    ]);
+  });
+
+  it("drops every finding of a deleted file", () => {
+    const { carried, dropped } = carryForwardFindings(
+      [issue("gone.js", 1), issue("kept.js", 1)],
+      diff(
+        "diff --git a/gone.js b/gone.js",
+        "deleted file mode 100644",
+        "index 1111111..0000000",
+        "--- a/gone.js",
+        "+++ /dev/null",
+        "@@ -1,2 +0,0 @@",
+        "-start();",
+        "-stop();"
+      )
+    );
+
+    expect(carried).toEqual([issue("kept.js", 1)]);
+    expect(dropped).toBe(1);
+  });
+});
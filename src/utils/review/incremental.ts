@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { Issue } from "../../types";
+import { classifyDiffLines, splitDiffByFile } from "../git/branch-operations";
+
+export const INCREMENTAL_STATE_FILE = join(".steelheart", "incremental.json");
+
+export interface IncrementalBranchState {
+  // HEAD at the end of the last review
+  headSha: string;
+  base: string;
+  reviewedAt: string;
+  // Open findings after that review, with line numbers at headSha
+  issues: Issue[];
+}
+
+interface IncrementalStateFile {
+  version: 1;
+  branches: Record<string, IncrementalBranchState>;
+}
+
+const readStateFile = (repoPath: string): IncrementalStateFile => {
+  const path = join(repoPath, INCREMENTAL_STATE_FILE);
+  if (!existsSync(path)) return { version: 1, branches: {} };
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf8"));
+    return { version: 1, branches: data.branches || {} };
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${INCREMENTAL_STATE_FILE}: ${error}`);
+    return { version: 1, branches: {} };
+  }
+};
+
+export const loadIncrementalState = (
+  repoPath: string,
+  branch: string
+): IncrementalBranchState | null =>
+  readStateFile(repoPath).branches[branch] || null;
+
+export const saveIncrementalState = (
+  repoPath: string,
+  branch: string,
+  state: IncrementalBranchState
+): string => {
+  const path = join(repoPath, INCREMENTAL_STATE_FILE);
+  const file = readStateFile(repoPath);
+  file.branches[branch] = state;
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(file, null, 2));
+  return path;
+};
+
+interface LineMap {
+  deleted: boolean;
+  // Old line number -> new line number, or null when the line was changed
+  map: (line: number) => number | null;
+}
+
+const buildLineMap = (fileDiff: string): LineMap => {
+  const touched = new Set<number>();
+  const mapped = new Map<number, number>();
+  // [old line where a hunk ends, shift applied to lines after it]
+  const shifts: Array<[number, number]> = [];
+
+  let oldLine = 0;
+  let newLine = 0;
+  let deleted = false;
+  for (const { kind, text } of classifyDiffLines(fileDiff)) {
+    if (kind === "header") {
+      if (/^deleted file mode/.test(text)) deleted = true;
+      continue;
+    }
+    if (kind === "hunk") {
+      const hunk = text.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)/)!;
+      oldLine = parseInt(hunk[1], 10);
+      newLine = parseInt(hunk[3], 10);
+      // Pure insertions report the line before them as the start
+      if (hunk[2] === "0") oldLine++;
+      continue;
+    }
+
+    if (kind === "removed") {
+      touched.add(oldLine++);
+    } else if (kind === "added") {
+      newLine++;
+    } else if (kind === "context") {
+      mapped.set(oldLine++, newLine++);
+    } else {
+      continue;
+    }
+    shifts.push([oldLine, newLine - oldLine]);
+  }
+
+  return {
+    deleted,
+    map: (line) => {
+      if (touched.has(line)) return null;
+      if (mapped.has(line)) return mapped.get(line)!;
+      let shift = 0;
+      for (const [end, delta] of shifts) {
+        if (end > line) break;
+        shift = delta;
+      }
+      return line + shift;
+    },
+  };
+};
+
+/**
+ * Moves findings from the last review onto the new HEAD. Findings on lines
+ * the new diff changes or deletes are dropped, since the new review sees
+ * those lines again; the rest keep their finding with line numbers shifted
+ * past any inserted or removed lines.
+ */
+export const carryForwardFindings = (
+  issues: Issue[],
+  diffContent: string
+): { carried: Issue[]; dropped: number } => {
+  // Keyed by the old path so renamed files are followed
+  const byOldPath = new Map<string, { file: string; lines: LineMap }>();
+  Object.entries(splitDiffByFile(diffContent)).forEach(([file, fileDiff]) => {
+    const header = fileDiff.match(/^diff --git a\/(.+?) b\//);
+    byOldPath.set(header ? header[1] : file, {
+      file,
+      lines: buildLineMap(fileDiff),
+    });
+  });
+
+  const carried: Issue[] = [];
+  let dropped = 0;
+
+  for (const issue of issues) {
+    const change = byOldPath.get(issue.file.replace(/^\.?\//, ""));
+    if (!change) {
+      carried.push(issue);
+      continue;
+    }
+
+    const line = change.lines.deleted ? null : change.lines.map(issue.line);
+    if (line === null) {
+      dropped++;
+      continue;
+    }
+    carried.push({ ...issue, file: change.file, line });
+  }
+
+  return { carried, dropped };
+};
@@ -0,0 +1,175 @@
+import { InvalidArgumentError } from "commander";
+import {
+  mergeIntentChecks,
+  SEVERITY_RANK,
+  StructuredReview,
+  StructuredReviewIssue,
+} from "./structured-review";
+
+export interface ReviewPersona {
+  name: string;
+  title: string;
+  // Replaces the generic reviewer role in the system prompt
+  role: string;
+  // What this reviewer looks for, and what it leaves to the others
+  focus: string[];
+}
+
+export const REVIEW_PERSONAS: Record<string, ReviewPersona> = {
+  security: {
+    name: "security",
+    title: "Security",
+    role: "You are an application security engineer reviewing a code change for vulnerabilities.",
+    focus: [
+      "Injection of any kind: SQL, shell, path traversal, template, header and log injection",
+      "Authentication, authorization and session handling; missing or bypassable checks",
+      "Secrets, tokens and personal data in code, logs, errors or responses",
+      "Unsafe deserialization, SSRF, open redirects, XSS and CSRF",
+      "Weak or misused cryptography and insecure randomness",
+      "Input that reaches a sensitive sink without validation",
+    ],
+  },
+  performance: {
+    name: "performance",
+    title: "Performance",
+    role: "You are a performance engineer reviewing a code change for runtime cost.",
+    focus: [
+      "Algorithmic complexity that grows with input size, nested loops over collections",
+      "N+1 queries, repeated I/O or network calls inside loops, missing batching",
+      "Blocking or synchronous work on hot or async paths",
+      "Unbounded memory growth, caches without eviction, large copies",
+      "Resources that are opened but not released",
+      "Missing pagination, limits or timeouts on external calls",
+    ],
+  },
+  correctness: {
+    name: "correctness",
+    title: "Correctness",
+    role: "You are a meticulous reviewer checking whether a code change does what it intends, in every case.",
+    focus: [
+      "Logic errors, wrong conditions, off-by-one errors and inverted checks",
+      "Unhandled null, undefined, empty and boundary inputs",
+      "Error handling: swallowed errors, unhandled promise rejections, wrong fallbacks",
+      "Race conditions, ordering assumptions and shared mutable state",
+      "Type confusion and incorrect conversions",
+      "Behavior changes that existing callers do not expect",
+    ],
+  },
+  "api-design": {
+    name: "api-design",
+    title: "API Design",
+    role: "You are an API reviewer checking the interfaces a code change adds or alters.",
+    focus: [
+      "Breaking changes to exported functions, types, endpoints, CLI flags or config",
+      "Naming and consistency with the existing public surface",
+      "Parameters and return types that are hard to use correctly or leak internals",
+      "Error contracts: what callers receive on failure and whether it is documented",
+      "Versioning, defaults and backwards compatibility",
+      "Missing or misleading documentation of public behavior",
+    ],
+  },
+};
+
+export const parsePersonas = (value: string): string[] => {
+  const names = [
+    ...new Set(
+      value
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+  const unknown = names.filter((name) => !REVIEW_PERSONAS[name]);
+  if (names.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(
+      `Invalid --personas value: ${value}. Use a comma-separated list of ${Object.keys(
+        REVIEW_PERSONAS
+      ).join(", ")}`
+    );
+  }
+  return names;
+};
+
+const titleWords = (title: string): Set<string> =>
+  new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2)
+  );
+
+const titleSimilarity = (a: string, b: string): number => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total === 0 ? 0 : shared / total;
+};
+
+/**
+ * Whether two findings describe the same problem: same file, lines at most
+ * two apart, and the same category or mostly the same title. Reviewers
+ * often file one problem under different categories, e.g. an injection as
+ * both "security" and "bug".
+ */
+export const findingsOverlap = (
+  a: StructuredReviewIssue,
+  b: StructuredReviewIssue
+): boolean =>
+  a.file === b.file &&
+  (a.line === 0) === (b.line === 0) &&
+  Math.abs(a.line - b.line) <= 2 &&
+  (a.category === b.category || titleSimilarity(a.title, b.title) >= 0.5);
+
+const stricter = (
+  a: StructuredReviewIssue,
+  b: StructuredReviewIssue
+): StructuredReviewIssue =>
+  SEVERITY_RANK[b.severity] < SEVERITY_RANK[a.severity] ? b : a;
+
+/**
+ * Combines reviews of the same change by different personas. Overlapping
+ * findings are kept once, at the highest severity any persona gave them,
+ * and remember every persona that reported them. The decision is the
+ * strictest one: any FAIL or critical finding fails the whole review.
+ */
+export const mergePersonaReviews = (
+  reviews: Array<{ persona: ReviewPersona; review: StructuredReview }>
+): StructuredReview => {
+  const issues: StructuredReviewIssue[] = [];
+
+  reviews.forEach(({ persona, review }) => {
+    review.issues.forEach((issue) => {
+      const index = issues.findIndex((kept) => findingsOverlap(kept, issue));
+      if (index === -1) {
+        issues.push({ ...issue, personas: [persona.name] });
+        return;
+      }
+      const kept = issues[index];
+      issues[index] = {
+        ...stricter(kept, issue),
+        personas: [...new Set([...(kept.personas || []), persona.name])],
+      };
+    });
+  });
+
+  const failed =
+    reviews.some(({ review }) => review.decision === "FAIL") ||
+    issues.some((issue) => issue.severity === "critical");
+
+  return {
+    decision: failed ? "FAIL" : "PASS",
+    summary: reviews
+      .map(({ persona, review }) => `${persona.title}: ${review.summary}`)
+      .join(" "),
+    overallAssessment: reviews
+      .map(
+        ({ persona, review }) =>
+          `### ${persona.title} Review (${review.decision})\n\n${review.overallAssessment}`
+      )
+      .join("\n\n"),
+    issues,
+    suggestions: reviews.flatMap(({ review }) => review.suggestions),
+    intentCheck: mergeIntentChecks(reviews.map(({ review }) => review)),
+  };
+};
@@ -0,0 +1,97 @@
+import { BranchReviewResult } from "../../types";
+import {
+  evaluateQualityGate,
+  EXIT_CODES,
+  getExitCode,
+  parseFailOn,
+  parseMaxIssues,
+} from "./quality-gate";
+
+const result = (
+  decision: BranchReviewResult["decision"],
+  counts: { critical?: number; major?: number; minor?: number } = {}
+): BranchReviewResult =>
+  ({
+    decision,
+    criticalIssues: Array(counts.critical || 0).fill("critical"),
+    majorIssues: Array(counts.major || 0).fill("major"),
+    minorIssues: Array(counts.minor || 0).fill("minor"),
+    summary: "",
+    rawContent: "",
+  } as BranchReviewResult);
+
+describe("evaluateQualityGate", () => {
+  it("passes a PASS review without options", () => {
+    expect(evaluateQualityGate(result("PASS", { minor: 3 }))).toEqual({
+      passed: true,
+      reasons: [],
+    });
+  });
+
+  it("fails a FAIL review", () => {
+    expect(evaluateQualityGate(result("FAIL")).reasons).toEqual([
+      "review decision is FAIL",
+    ]);
+  });
+
+  it("fails on findings at or above --fail-on", () => {
+    const review = result("PASS", { major: 2, minor: 1 });
+
+    expect(evaluateQualityGate(review, { failOn: "critical" }).passed).toBe(
+      true
+    );
+    expect(evaluateQualityGate(review, { failOn: "major" }).reasons).toEqual([
+      "found 2 major (--fail-on major)",
+    ]);
+    expect(evaluateQualityGate(review, { failOn: "minor" }).reasons).toEqual([
+      "found 2 major, 1 minor (--fail-on minor)",
+    ]);
+  });
+
+  it("fails when findings exceed --max-issues", () => {
+    const review = result("PASS", { major: 1, minor: 2 });
+
+    expect(evaluateQualityGate(review, { maxIssues: 3 }).passed).toBe(true);
+    expect(evaluateQualityGate(review, { maxIssues: 2 }).reasons).toEqual([
+      "3 findings exceed --max-issues 2",
+    ]);
+    expect(
+      evaluateQualityGate(result("PASS", { minor: 1 }), { maxIssues: 0 }).passed
+    ).toBe(false);
+  });
+});
+
+describe("option parsers", () => {
+  it("accepts severities case-insensitively", () => {
+    expect(parseFailOn(" Major ")).toBe("major");
+    expect(() => parseFailOn("warning")).toThrow("Invalid --fail-on severity");
+  });
+
+  it("accepts non-negative integer issue limits", () => {
+    expect(parseMaxIssues("0")).toBe(0);
+    expect(() => parseMaxIssues("-1")).toThrow("Invalid --max-issues value");
+    expect(() => parseMaxIssues("1.5")).toThrow("Invalid --max-issues value");
+  });
+});
+
+describe("getExitCode", () => {
+  it.each([
+    [{ budgetExceeded: false, toolError: false, gatePassed: true }, 0],
+    [{ budgetExceeded: false, toolError: false, gatePassed: false }, 1],
+    [{ budgetExceeded: false, toolError: true, gatePassed: true }, 2],
+    [{ budgetExceeded: false, toolError: true, gatePassed: false }, 2],
+    [{ budgetExceeded: true, toolError: true, gatePassed: false }, 3],
+    [{ budgetExceeded: true, toolError: false, gatePassed: true }, 3],
+  ])("maps %j to %i", (outcome, code) => {
+    expect(getExitCode(outcome)).toBe(code);
+  });
+
+  it("uses the documented codes", () => {
+    expect(EXIT_CODES).toEqual({
+      PASS: 0,
+      GATE_FAILED: 1,
+      TOOL_ERROR: 2,
+      BUDGET_EXCEEDED: 3,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { InvalidArgumentError } from "commander";
+import { BranchReviewResult } from "../../types";
+import { ReviewSeverity } from "./structured-review";
+
+// Process exit codes of `auto-review`, documented in the README
+export const EXIT_CODES = {
+  PASS: 0,
+  GATE_FAILED: 1,
+  TOOL_ERROR: 2,
+  BUDGET_EXCEEDED: 3,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export interface QualityGateOptions {
+  // Fail when any finding is at or above this severity
+  failOn?: ReviewSeverity;
+  // Fail when the total number of findings exceeds this count
+  maxIssues?: number;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  reasons: string[];
+}
+
+const SEVERITY_ORDER: ReviewSeverity[] = ["critical", "major", "minor"];
+
+export const parseFailOn = (value: string): ReviewSeverity => {
+  const severity = value.trim().toLowerCase() as ReviewSeverity;
+  if (!SEVERITY_ORDER.includes(severity)) {
+    throw new InvalidArgumentError(
+      `Invalid --fail-on severity: ${value}. Use ${SEVERITY_ORDER.join("|")}`
+    );
+  }
+  return severity;
+};
+
+export const parseMaxIssues = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError(`Invalid --max-issues value: ${value}`);
+  }
+  return parsed;
+};
+
+/**
+ * The gate fails on a FAIL decision, on any finding at or above `failOn`,
+ * or when more than `maxIssues` findings were reported.
+ */
+export const evaluateQualityGate = (
+  result: BranchReviewResult,
+  options: QualityGateOptions = {}
+): QualityGateResult => {
+  const counts: Record<ReviewSeverity, number> = {
+    critical: result.criticalIssues.length,
+    major: result.majorIssues.length,
+    minor: result.minorIssues.length,
+  };
+  const reasons: string[] = [];
+
+  if (result.decision === "FAIL") {
+    reasons.push("review decision is FAIL");
+  }
+
+  if (options.failOn) {
+    const blocking = SEVERITY_ORDER.slice(
+      0,
+      SEVERITY_ORDER.indexOf(options.failOn) + 1
+    ).filter((severity) => counts[severity] > 0);
+
+    if (blocking.length > 0) {
+      reasons.push(
+        `found ${blocking
+          .map((severity) => `${counts[severity]} ${severity}`)
+          .join(", ")} (--fail-on ${options.failOn})`
+      );
+    }
+  }
+
+  const total = counts.critical + counts.major + counts.minor;
+  if (options.maxIssues !== undefined && total > options.maxIssues) {
+    reasons.push(`${total} findings exceed --max-issues ${options.maxIssues}`);
+  }
+
+  return { passed: reasons.length === 0, reasons };
+};
+
+/**
+ * Exit code of a finished run. Running out of budget wins, since the
+ * findings are partial; a tool error (a review that could not be completed
+ * or delivered) wins over the gate, so CI never reads it as a verdict.
+ */
+export const getExitCode = (outcome: {
+  budgetExceeded: boolean;
+  toolError: boolean;
+  gatePassed: boolean;
+}): ExitCode => {
+  if (outcome.budgetExceeded) return EXIT_CODES.BUDGET_EXCEEDED;
+  if (outcome.toolError) return EXIT_CODES.TOOL_ERROR;
+  return outcome.gatePassed ? EXIT_CODES.PASS : EXIT_CODES.GATE_FAILED;
+};
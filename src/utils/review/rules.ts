@@ -0,0 +1,169 @@
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import { ReviewReport } from "../../types";
+import { getConfig, ReviewRule } from "../config/config-manager";
+import { ISSUE_SEVERITY, recountIssues } from "./structured-review";
+
+export interface ReviewGuidance {
+  guidelines: string | null;
+  rules: ReviewRule[];
+}
+
+const RULE_SEVERITIES = ["critical", "major", "minor"];
+const RULE_CATEGORIES = [
+  "bug",
+  "security",
+  "performance",
+  "style",
+  "maintainability",
+];
+
+// Supports "**", "*", "?" and "{a,b}", which covers typical path filters
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches zero directories
+      pattern += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        pattern += "\\{";
+        continue;
+      }
+      pattern += `(?:${glob
+        .slice(i + 1, end)
+        .split(",")
+        .map((option) => globToRegExp(option).source.slice(1, -1))
+        .join("|")})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+export const ruleAppliesTo = (rule: ReviewRule, file: string): boolean =>
+  !rule.glob || globToRegExp(rule.glob).test(file.replace(/^\.?\//, ""));
+
+const validateRule = (rule: any, index: number): string | null => {
+  if (!rule || typeof rule.id !== "string" || !rule.id.trim()) {
+    return `review.rules[${index}] needs an "id"`;
+  }
+  if (typeof rule.description !== "string" || !rule.description.trim()) {
+    return `review rule "${rule.id}" needs a "description"`;
+  }
+  if (!RULE_SEVERITIES.includes(rule.severity)) {
+    return `review rule "${rule.id}" has invalid severity "${
+      rule.severity
+    }" (use ${RULE_SEVERITIES.join("|")})`;
+  }
+  if (!RULE_CATEGORIES.includes(rule.category)) {
+    return `review rule "${rule.id}" has invalid category "${
+      rule.category
+    }" (use ${RULE_CATEGORIES.join("|")})`;
+  }
+  return null;
+};
+
+/**
+ * Reads the guidelines file and custom rules configured under `review`.
+ * Invalid rules and a missing guidelines file are reported and skipped so a
+ * typo in the config does not stop the review.
+ */
+export const loadReviewGuidance = (
+  repoPath: string,
+  config = getConfig()
+): ReviewGuidance => {
+  const review = config.review || {};
+  let guidelines: string | null = null;
+
+  if (review.guidelines) {
+    const guidelinesPath = isAbsolute(review.guidelines)
+      ? review.guidelines
+      : join(repoPath, review.guidelines);
+    if (existsSync(guidelinesPath)) {
+      guidelines = readFileSync(guidelinesPath, "utf8").trim() || null;
+    } else {
+      console.warn(`Review guidelines not found: ${guidelinesPath}`);
+    }
+  }
+
+  const rules = (review.rules || []).filter((rule, index) => {
+    const error = validateRule(rule, index);
+    if (error) console.warn(`Skipping ${error}`);
+    return !error;
+  });
+
+  return { guidelines, rules };
+};
+
+/**
+ * Prompt section with the team guidelines and the rules that apply to any
+ * of `files`. Empty when nothing is configured.
+ */
+export const renderGuidancePrompt = (
+  guidance: ReviewGuidance,
+  files: string[]
+): string => {
+  const rules = guidance.rules.filter((rule) =>
+    files.some((file) => ruleAppliesTo(rule, file))
+  );
+  const parts: string[] = [];
+
+  if (guidance.guidelines) {
+    parts.push(`## Team Guidelines:
+Check the changes against these conventions and report violations like any other finding.
+
+${guidance.guidelines}`);
+  }
+
+  if (rules.length > 0) {
+    parts.push(`## Custom Rules:
+Report every violation of these rules. Set "rule" to the rule id and use the rule's severity and category.
+
+${rules
+  .map(
+    (rule) =>
+      `- \`${rule.id}\` (${rule.severity}, ${rule.category}${
+        rule.glob ? `, files matching ${rule.glob}` : ""
+      }): ${rule.description}`
+  )
+  .join("\n")}`);
+  }
+
+  return parts.join("\n\n");
+};
+
+/**
+ * Normalizes findings that cite a configured rule: the id takes the
+ * configured spelling and severity and category follow the rule, so the
+ * team, not the model, decides how much a violation matters.
+ */
+export const attributeRuleFindings = (
+  report: ReviewReport,
+  rules: ReviewRule[]
+): number => {
+  const byId = new Map(rules.map((rule) => [rule.id.toLowerCase(), rule]));
+  let attributed = 0;
+
+  for (const issue of report.issues) {
+    const rule = issue.rule && byId.get(issue.rule.trim().toLowerCase());
+    if (!rule) continue;
+
+    issue.rule = rule.id;
+    issue.severity = ISSUE_SEVERITY[rule.severity];
+    issue.category = rule.category;
+    attributed++;
+  }
+
+  if (attributed > 0) recountIssues(report);
+  return attributed;
+};
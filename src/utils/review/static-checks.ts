@@ -0,0 +1,309 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { Issue } from "../../types";
+import {
+  getChangedLinesFromDiff,
+  splitDiffByFile,
+} from "../git/branch-operations";
+
+// Functions longer than this are reported when the change touches them
+const LARGE_FUNCTION_LINES = 80;
+
+interface LineCheck {
+  id: string;
+  title: string;
+  description: string;
+  suggestion: string;
+  severity: Issue["severity"];
+  category: Issue["category"];
+  pattern: RegExp;
+  // Limits the check to matching paths; all text files otherwise
+  files?: RegExp;
+  excludeFiles?: RegExp;
+  // Also match inside comments (TODO markers live there)
+  inComments?: boolean;
+}
+
+const JS_FILES = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+const SKIPPED_FILES =
+  /(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.yaml|[^/]+\.(?:lock|min\.js|map|svg|png|jpe?g|gif|ico|pdf|woff2?))$/;
+const DOC_FILES = /\.(?:md|mdx|txt|rst)$/;
+const COMMENT_LINE = /^\s*(?:\/\/|#|\/?\*|<!--)/;
+
+const LINE_CHECKS: LineCheck[] = [
+  {
+    id: "hardcoded-secret",
+    title: "Hardcoded secret or API key",
+    description:
+      "A credential is committed to source control, where anyone with read access can use it.",
+    suggestion:
+      "Load it from an environment variable or secret manager and rotate the exposed key.",
+    severity: "critical",
+    category: "security",
+    pattern: new RegExp(
+      [
+        "AKIA[0-9A-Z]{16}",
+        "\\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}",
+        "\\bgh[pousr]_[A-Za-z0-9]{36,}",
+        "\\bxox[abprs]-[A-Za-z0-9-]{10,}",
+        "\\bAIza[0-9A-Za-z_-]{35}",
+        "-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP )?PRIVATE KEY-----",
+        "(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token)[\"']?\\s*[:=]\\s*[\"'][^\"'\\s]{8,}[\"']",
+        // Passwords only when the value looks real: not a mask, a template
+        // placeholder or a plain word like "password"
+        "\\bpassw(?:or)?d[\"']?\\s*[:=]\\s*[\"'](?![$<%{]|[*x.]+[\"'])(?=[^\"'\\s]*[^A-Za-z\"'\\s])[^\"'\\s]{8,}[\"']",
+      ].join("|"),
+      "i"
+    ),
+    excludeFiles: DOC_FILES,
+    inComments: true,
+  },
+  {
+    id: "console-log",
+    title: "console.log left in code",
+    description: "Debug logging is noisy in production and can leak data.",
+    suggestion: "Remove it or use the project's logger.",
+    severity: "info",
+    category: "maintainability",
+    pattern: /\bconsole\.(?:log|debug|trace)\s*\(/,
+    files: JS_FILES,
+  },
+  {
+    id: "debugger",
+    title: "debugger statement left in code",
+    description:
+      "A debugger statement pauses execution whenever devtools are open.",
+    suggestion: "Remove the debugger statement.",
+    severity: "warning",
+    category: "bug",
+    pattern: /(?:^|[;{}])\s*debugger\b\s*;?\s*(?:\}|$)/,
+    files: JS_FILES,
+  },
+  {
+    id: "eval",
+    title: "Use of eval",
+    description:
+      "eval and the Function constructor execute arbitrary strings as code, enabling injection.",
+    suggestion:
+      "Replace it with explicit parsing (e.g. JSON.parse) or a lookup table.",
+    severity: "warning",
+    category: "security",
+    pattern: /(?:^|[^.\w])(?:eval\s*\(|new\s+Function\s*\()/,
+    files: /\.(?:[cm]?[jt]sx?|py|php|rb)$/,
+  },
+  {
+    id: "tls-verification-disabled",
+    title: "TLS certificate verification disabled",
+    description:
+      "Connections accept any certificate, which allows man-in-the-middle attacks.",
+    suggestion:
+      "Keep verification on and trust the required CA (e.g. NODE_EXTRA_CA_CERTS) instead.",
+    severity: "critical",
+    category: "security",
+    pattern:
+      /rejectUnauthorized\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED\s*[:=]\s*["']?0|verify\s*=\s*False|InsecureSkipVerify\s*:\s*true|CURLOPT_SSL_VERIFYPEER\s*,\s*(?:false|0)|strictSSL\s*:\s*false/,
+  },
+  {
+    id: "todo-comment",
+    title: "New TODO/FIXME",
+    description: "The change adds unfinished work that is easy to forget.",
+    suggestion: "Finish it before merging or link it to a tracked issue.",
+    severity: "info",
+    category: "maintainability",
+    pattern: /\b(?:TODO|FIXME)\b/,
+    excludeFiles: DOC_FILES,
+    inComments: true,
+  },
+];
+
+// Start of a named function in brace languages, or a Python def
+const FUNCTION_START =
+  /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function\s*\*?\s*\w+\s*\(|(?:const|let|var)\s+\w+\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|\w+\s*=>)|(?:(?:public|private|protected|static|async|override)\s+)*\w+\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$|def\s+\w+\s*\(|func\s+(?:\([^)]*\)\s*)?\w+\s*\()/;
+const CONTROL_KEYWORDS = /^\s*(?:if|for|while|switch|catch|with|return)\b/;
+
+const findFunctionEnd = (lines: string[], start: number): number => {
+  // Python: the body is everything indented deeper than the def
+  if (/^\s*def\s/.test(lines[start])) {
+    const indent = lines[start].search(/\S/);
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      if (lines[i].search(/\S/) <= indent) break;
+      end = i;
+    }
+    return end;
+  }
+
+  let depth = 0;
+  let opened = false;
+  for (let i = start; i < lines.length; i++) {
+    for (const char of lines[i]) {
+      if (char === "{") {
+        depth++;
+        opened = true;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+    if (opened && depth <= 0) return i;
+    // Expression-bodied arrow functions end on their own line
+    if (!opened && i > start + 1) return start;
+  }
+  return start;
+};
+
+const checkLargeFunctions = (
+  file: string,
+  lines: string[],
+  addedLines: Set<number>
+): Issue[] => {
+  const issues: Issue[] = [];
+
+  lines.forEach((line, index) => {
+    if (!FUNCTION_START.test(line) || CONTROL_KEYWORDS.test(line)) return;
+
+    const end = findFunctionEnd(lines, index);
+    const length = end - index + 1;
+    if (length <= LARGE_FUNCTION_LINES) return;
+
+    // Only functions this change touches
+    let touched = false;
+    for (let lineNumber = index + 1; lineNumber <= end + 1; lineNumber++) {
+      if (addedLines.has(lineNumber)) {
+        touched = true;
+        break;
+      }
+    }
+    if (!touched) return;
+
+    issues.push({
+      file,
+      line: index + 1,
+      severity: "info",
+      category: "maintainability",
+      title: `Function is ${length} lines long`,
+      description: `Functions over ${LARGE_FUNCTION_LINES} lines are hard to read, test and review.`,
+      suggestion:
+        "Split it into smaller functions with a single responsibility.",
+      rule: "large-function",
+      source: "static",
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Runs the built-in analyzers over the lines added by the change. Files
+ * without a diff (untracked new files) are checked in full. Findings are
+ * tagged with `source: "static"` and the check id as `rule`. `readContent`
+ * supplies file contents when they do not come from the working tree.
+ */
+export const runStaticChecks = (
+  repoPath: string,
+  diffContent: string,
+  changedFiles: Array<{ file: string; isNew?: boolean; binary?: boolean }>,
+  readContent: (file: string) => string | null = (file) => {
+    const fullPath = join(repoPath, file);
+    return existsSync(fullPath) ? readFileSync(fullPath, "utf8") : null;
+  }
+): Issue[] => {
+  const fileDiffs = splitDiffByFile(diffContent);
+  const issues: Issue[] = [];
+
+  for (const changed of changedFiles) {
+    const file = changed.file;
+    if (changed.binary || SKIPPED_FILES.test(file)) continue;
+
+    let lines: string[] = [];
+    try {
+      lines = readContent(file)?.split("\n") || [];
+    } catch {
+      continue;
+    }
+
+    const added = fileDiffs[file]
+      ? getChangedLinesFromDiff(fileDiffs[file])
+          .filter((line) => line.type === "added")
+          .map((line) => ({
+            lineNumber: line.lineNumber,
+            content: line.content,
+          }))
+      : changed.isNew
+      ? lines.map((content, index) => ({ lineNumber: index + 1, content }))
+      : [];
+    if (added.length === 0) continue;
+
+    for (const { lineNumber, content } of added) {
+      const isComment = COMMENT_LINE.test(content);
+      for (const check of LINE_CHECKS) {
+        if (check.files && !check.files.test(file)) continue;
+        if (check.excludeFiles && check.excludeFiles.test(file)) continue;
+        if (isComment && !check.inComments) continue;
+        if (!check.pattern.test(content)) continue;
+
+        issues.push({
+          file,
+          line: lineNumber,
+          severity: check.severity,
+          category: check.category,
+          title: check.title,
+          description: check.description,
+          suggestion: check.suggestion,
+          rule: check.id,
+          source: "static",
+        });
+      }
+    }
+
+    if (lines.length > LARGE_FUNCTION_LINES) {
+      issues.push(
+        ...checkLargeFunctions(
+          file,
+          lines,
+          new Set(added.map((line) => line.lineNumber))
+        )
+      );
+    }
+  }
+
+  return issues;
+};
+
+const SEVERITY_ORDER: Issue["severity"][] = ["critical", "warning", "info"];
+
+/**
+ * Adds static findings to the AI findings. A static finding is dropped only
+ * when the model reported the same rule or category on the same line, and
+ * the model's finding then takes the stricter of the two severities; an
+ * unrelated note on the line never hides a static finding.
+ */
+export const mergeStaticFindings = (
+  aiIssues: Issue[],
+  staticIssues: Issue[]
+): Issue[] => {
+  const merged = aiIssues.map((issue) => ({ ...issue }));
+  const added: Issue[] = [];
+
+  staticIssues.forEach((issue) => {
+    const duplicate = merged.find(
+      (reported) =>
+        reported.file === issue.file &&
+        reported.line === issue.line &&
+        ((!!reported.rule && reported.rule === issue.rule) ||
+          reported.category === issue.category)
+    );
+    if (!duplicate) {
+      added.push(issue);
+      return;
+    }
+    if (
+      SEVERITY_ORDER.indexOf(issue.severity) <
+      SEVERITY_ORDER.indexOf(duplicate.severity)
+    ) {
+      duplicate.severity = issue.severity;
+    }
+  });
+
+  return [...merged, ...added];
+};
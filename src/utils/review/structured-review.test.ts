@@ -0,0 +1,178 @@
+import {
+  extractJson,
+  mergeStructuredReviews,
+  StructuredReview,
+  StructuredReviewIssue,
+  toReviewReport,
+  validateStructuredReview,
+} from "./structured-review";
+
+const issue = (
+  overrides: Partial<StructuredReviewIssue> = {}
+): StructuredReviewIssue => ({
+  file: "src/app.ts",
+  line: 3,
+  severity: "major",
+  category: "bug",
+  title: "Unchecked result",
+  description: "The result is used without a null check.",
+  ...overrides,
+});
+
+const review = (
+  overrides: Partial<StructuredReview> = {}
+): StructuredReview => ({
+  decision: "PASS",
+  summary: "Looks fine.",
+  overallAssessment: "No blocking problems.",
+  issues: [],
+  suggestions: [],
+  ...overrides,
+});
+
+describe("extractJson", () => {
+  it("reads bare JSON", () => {
+    expect(extractJson('{"decision": "PASS"}')).toEqual({ decision: "PASS" });
+  });
+
+  it("reads JSON from a fence or surrounding prose", () => {
+    expect(
+      extractJson('Here is the review:\n```json\n{"a": 1}\n```\nThanks')
+    ).toEqual({ a: 1 });
+    expect(extractJson('Review: {"a": {"b": 2}} done')).toEqual({
+      a: { b: 2 },
+    });
+  });
+
+  it("rejects replies without a JSON object", () => {
+    expect(() => extractJson("## REVIEW DECISION: PASS")).toThrow(
+      "Response does not contain a JSON object"
+    );
+    expect(() => extractJson('{"decision": "PASS"')).toThrow();
+  });
+});
+
+describe("validateStructuredReview", () => {
+  it("accepts a complete review and defaults missing suggestions", () => {
+    const reply = {
+      decision: "FAIL",
+      summary: "One bug.",
+      overallAssessment: "Details.",
+      issues: [issue()],
+    };
+
+    expect(validateStructuredReview(reply)).toEqual({
+      valid: true,
+      review: { ...reply, suggestions: [] },
+    });
+  });
+
+  it("rejects a root that is not an object", () => {
+    expect(validateStructuredReview([])).toEqual({
+      valid: false,
+      errors: ["Root must be a JSON object"],
+    });
+  });
+
+  it("lists every problem so a repair turn can fix them at once", () => {
+    const result = validateStructuredReview({
+      decision: "pass",
+      summary: 1,
+      issues: [
+        { ...issue(), line: -1, severity: "warning" },
+        { ...issue(), category: "docs", title: undefined },
+      ],
+      suggestions: [{ type: "rewrite", description: "x", impact: "huge" }],
+      intentCheck: { matches: "yes" },
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'decision must be "PASS" or "FAIL"',
+        "summary must be a string",
+        "overallAssessment must be a string",
+        "issues[0].line must be a non-negative integer",
+        "issues[0].severity must be one of critical, major, minor",
+        "issues[1].category must be one of bug, security, performance, style, maintainability",
+        "issues[1].title must be a string",
+        "suggestions[0].type must be one of improvement, refactoring, optimization",
+        "suggestions[0].impact must be one of high, medium, low",
+        "intentCheck.matches must be a boolean",
+        "intentCheck.explanation must be a string",
+      ],
+    });
+  });
+
+  it("requires issues to be an array", () => {
+    const result = validateStructuredReview({ ...review(), issues: "none" });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: ["issues must be an array"],
+    });
+  });
+});
+
+describe("toReviewReport", () => {
+  it("maps severities and counts them", () => {
+    const report = toReviewReport(
+      review({
+        decision: "FAIL",
+        issues: [
+          issue({ severity: "critical" }),
+          issue({ severity: "major" }),
+          issue({ severity: "minor" }),
+          issue({ severity: "minor", line: 9 }),
+        ],
+      }),
+      "https://example.com/repo.git",
+      2
+    );
+
+    expect(report.issues.map((finding) => finding.severity)).toEqual([
+      "critical",
+      "warning",
+      "info",
+      "info",
+    ]);
+    expect(report.issues.every((finding) => finding.source === "ai")).toBe(
+      true
+    );
+    expect([
+      report.criticalIssues,
+      report.warningIssues,
+      report.infoIssues,
+    ]).toEqual([1, 1, 2]);
+  });
+});
+
+describe("mergeStructuredReviews", () => {
+  it("keeps repeated findings once and fails on any critical finding", () => {
+    const merged = mergeStructuredReviews([
+      review({ issues: [issue()] }),
+      review({
+        summary: "One risk.",
+        issues: [issue(), issue({ line: 8, severity: "critical" })],
+      }),
+    ]);
+
+    expect(merged.issues).toHaveLength(2);
+    expect(merged.decision).toBe("FAIL");
+    expect(merged.summary).toBe("Looks fine. One risk.");
+  });
+
+  it("only matches the intent when every batch agrees", () => {
+    const merged = mergeStructuredReviews([
+      review({ intentCheck: { matches: true, explanation: "Adds caching." } }),
+      review({
+        intentCheck: { matches: false, explanation: "Also renames the API." },
+      }),
+    ]);
+
+    expect(merged.intentCheck).toEqual({
+      matches: false,
+      explanation: "Adds caching. Also renames the API.",
+    });
+  });
+});
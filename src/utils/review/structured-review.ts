@@ -0,0 +1,437 @@
+import { Issue, ReviewReport, Suggestion } from "../../types";
+
+export type ReviewSeverity = "critical" | "major" | "minor";
+
+// The review prompt speaks critical/major/minor; Issue uses critical/warning/info
+export const ISSUE_SEVERITY: Record<ReviewSeverity, Issue["severity"]> = {
+  critical: "critical",
+  major: "warning",
+  minor: "info",
+};
+
+export const REVIEW_SEVERITY: Record<Issue["severity"], ReviewSeverity> = {
+  critical: "critical",
+  warning: "major",
+  info: "minor",
+};
+
+const SEVERITIES: ReviewSeverity[] = ["critical", "major", "minor"];
+
+// Lower is stricter
+export const SEVERITY_RANK: Record<ReviewSeverity, number> = {
+  critical: 0,
+  major: 1,
+  minor: 2,
+};
+const CATEGORIES: Issue["category"][] = [
+  "bug",
+  "security",
+  "performance",
+  "style",
+  "maintainability",
+];
+const SUGGESTION_TYPES: Suggestion["type"][] = [
+  "improvement",
+  "refactoring",
+  "optimization",
+];
+const IMPACTS: Suggestion["impact"][] = ["high", "medium", "low"];
+
+export interface StructuredReviewIssue {
+  file: string;
+  line: number;
+  severity: ReviewSeverity;
+  category: Issue["category"];
+  title: string;
+  description: string;
+  suggestion?: string;
+  rule?: string;
+  // Set when persona reviews are merged or votes counted, never by the model
+  personas?: string[];
+  confidence?: number;
+}
+
+export interface StructuredReview {
+  decision: "PASS" | "FAIL";
+  summary: string;
+  overallAssessment: string;
+  issues: StructuredReviewIssue[];
+  suggestions: Suggestion[];
+  // Only requested when a commit message is given as the intent
+  intentCheck?: { matches: boolean; explanation: string };
+}
+
+// The model's reply could not be validated, even after repair attempts
+export class InvalidReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidReviewError";
+  }
+}
+
+// Shown to the model verbatim; validateStructuredReview enforces the same shape
+export const REVIEW_JSON_SCHEMA = `{
+  "decision": "PASS" | "FAIL",
+  "summary": string,                      // one or two sentences
+  "overallAssessment": string,            // markdown, detailed analysis of new and modified files
+  "issues": [
+    {
+      "file": string,                     // path relative to the repository root
+      "line": integer,                    // 1-based line in the new file, 0 if not line-specific
+      "severity": "critical" | "major" | "minor",
+      "category": "bug" | "security" | "performance" | "style" | "maintainability",
+      "title": string,                    // short headline
+      "description": string,              // what is wrong and why it matters
+      "suggestion": string,               // concrete fix, code allowed
+      "rule": string                      // optional rule id, omit if none
+    }
+  ],
+  "suggestions": [
+    {
+      "type": "improvement" | "refactoring" | "optimization",
+      "description": string,
+      "file": string,                     // optional
+      "impact": "high" | "medium" | "low"
+    }
+  ]
+}`;
+
+/**
+ * Pulls the JSON object out of a reply. JSON mode returns bare JSON, but some
+ * backends still wrap it in a markdown fence or add a sentence around it.
+ */
+export const extractJson = (content: string): unknown => {
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+
+  if (start === -1 || end <= start) {
+    throw new Error("Response does not contain a JSON object");
+  }
+
+  return JSON.parse(candidate.substring(start, end + 1));
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+export const validateStructuredReview = (
+  data: unknown
+):
+  | { valid: true; review: StructuredReview }
+  | { valid: false; errors: string[] } => {
+  const errors: string[] = [];
+  const review = data as any;
+
+  if (!review || typeof review !== "object" || Array.isArray(review)) {
+    return { valid: false, errors: ["Root must be a JSON object"] };
+  }
+
+  if (review.decision !== "PASS" && review.decision !== "FAIL") {
+    errors.push(`decision must be "PASS" or "FAIL"`);
+  }
+  if (!isString(review.summary)) errors.push("summary must be a string");
+  if (!isString(review.overallAssessment)) {
+    errors.push("overallAssessment must be a string");
+  }
+
+  if (!Array.isArray(review.issues)) {
+    errors.push("issues must be an array");
+  } else {
+    review.issues.forEach((issue: any, index: number) => {
+      const at = `issues[${index}]`;
+      if (!issue || typeof issue !== "object") {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (!isString(issue.file)) errors.push(`${at}.file must be a string`);
+      if (!Number.isInteger(issue.line) || issue.line < 0) {
+        errors.push(`${at}.line must be a non-negative integer`);
+      }
+      if (!SEVERITIES.includes(issue.severity)) {
+        errors.push(`${at}.severity must be one of ${SEVERITIES.join(", ")}`);
+      }
+      if (!CATEGORIES.includes(issue.category)) {
+        errors.push(`${at}.category must be one of ${CATEGORIES.join(", ")}`);
+      }
+      if (!isString(issue.title)) errors.push(`${at}.title must be a string`);
+      if (!isString(issue.description)) {
+        errors.push(`${at}.description must be a string`);
+      }
+      if (issue.suggestion !== undefined && !isString(issue.suggestion)) {
+        errors.push(`${at}.suggestion must be a string`);
+      }
+      if (issue.rule !== undefined && !isString(issue.rule)) {
+        errors.push(`${at}.rule must be a string`);
+      }
+    });
+  }
+
+  if (review.suggestions !== undefined && !Array.isArray(review.suggestions)) {
+    errors.push("suggestions must be an array");
+  } else {
+    (review.suggestions || []).forEach((suggestion: any, index: number) => {
+      const at = `suggestions[${index}]`;
+      if (!SUGGESTION_TYPES.includes(suggestion?.type)) {
+        errors.push(`${at}.type must be one of ${SUGGESTION_TYPES.join(", ")}`);
+      }
+      if (!isString(suggestion?.description)) {
+        errors.push(`${at}.description must be a string`);
+      }
+      if (!IMPACTS.includes(suggestion?.impact)) {
+        errors.push(`${at}.impact must be one of ${IMPACTS.join(", ")}`);
+      }
+    });
+  }
+
+  if (review.intentCheck !== undefined) {
+    if (typeof review.intentCheck?.matches !== "boolean") {
+      errors.push("intentCheck.matches must be a boolean");
+    }
+    if (!isString(review.intentCheck?.explanation)) {
+      errors.push("intentCheck.explanation must be a string");
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    review: { ...review, suggestions: review.suggestions || [] },
+  };
+};
+
+export const toIssue = (issue: StructuredReviewIssue): Issue => ({
+  file: issue.file,
+  line: issue.line,
+  severity: ISSUE_SEVERITY[issue.severity],
+  category: issue.category,
+  title: issue.title,
+  description: issue.description,
+  suggestion: issue.suggestion,
+  rule: issue.rule,
+  source: "ai",
+  personas: issue.personas,
+  confidence: issue.confidence,
+});
+
+export const toReviewReport = (
+  review: StructuredReview,
+  repositoryUrl: string,
+  filesAnalyzed: number
+): ReviewReport => {
+  const issues = review.issues.map(toIssue);
+  const count = (severity: Issue["severity"]) =>
+    issues.filter((issue) => issue.severity === severity).length;
+
+  return {
+    repositoryUrl,
+    decision: review.decision,
+    issues,
+    suggestions: review.suggestions,
+    overallAssessment: review.overallAssessment,
+    summary: review.summary,
+    filesAnalyzed,
+    criticalIssues: count("critical"),
+    warningIssues: count("warning"),
+    infoIssues: count("info"),
+  };
+};
+
+// The message matches only if every review that checked it agrees
+export const mergeIntentChecks = (
+  reviews: StructuredReview[]
+): StructuredReview["intentCheck"] => {
+  const checks = reviews.flatMap((review) =>
+    review.intentCheck ? [review.intentCheck] : []
+  );
+  if (checks.length === 0) return undefined;
+  return {
+    matches: checks.every((check) => check.matches),
+    explanation: [...new Set(checks.map((check) => check.explanation))].join(
+      " "
+    ),
+  };
+};
+
+/**
+ * Combines reviews of disjoint parts of a branch without a model: findings
+ * reported twice at the same place are kept once, and any FAIL or critical
+ * finding fails the whole review.
+ */
+export const mergeStructuredReviews = (
+  reviews: StructuredReview[]
+): StructuredReview => {
+  const seen = new Set<string>();
+  const issues = reviews
+    .flatMap((review) => review.issues)
+    .filter((issue) => {
+      const key = [issue.file, issue.line, issue.category, issue.title].join(
+        "|"
+      );
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const failed =
+    reviews.some((review) => review.decision === "FAIL") ||
+    issues.some((issue) => issue.severity === "critical");
+
+  return {
+    decision: failed ? "FAIL" : "PASS",
+    summary: [...new Set(reviews.map((review) => review.summary))].join(" "),
+    overallAssessment: reviews
+      .map((review) => review.overallAssessment)
+      .join("\n\n"),
+    issues,
+    suggestions: reviews.flatMap((review) => review.suggestions),
+    intentCheck: mergeIntentChecks(reviews),
+  };
+};
+
+// Refreshes the severity counters after issues were added or removed
+export const recountIssues = (report: ReviewReport): void => {
+  const count = (severity: Issue["severity"]) =>
+    report.issues.filter((issue) => issue.severity === severity).length;
+  report.criticalIssues = count("critical");
+  report.warningIssues = count("warning");
+  report.infoIssues = count("info");
+};
+
+export const formatIssueLine = (issue: Issue): string => {
+  const location = issue.line > 0 ? `${issue.file}:${issue.line}` : issue.file;
+  const headline = issue.title || issue.description;
+  return `${location} - ${headline}`;
+};
+
+export const renderReviewMarkdown = (report: ReviewReport): string => {
+  const section = (title: string, severity: Issue["severity"]): string => {
+    const issues = report.issues.filter((issue) => issue.severity === severity);
+    if (issues.length === 0) {
+      return `## ${title}:\nNone.\n`;
+    }
+    return `## ${title}:\n${issues
+      .map(
+        (issue) =>
+          `- **${formatIssueLine(issue)}** (${issue.category}${
+            issue.rule ? `, ${issue.rule}` : ""
+          }${issue.source === "static" ? ", static check" : ""}${
+            issue.personas?.length
+              ? `, found by ${issue.personas.join(", ")}`
+              : ""
+          }${
+            issue.confidence !== undefined
+              ? `, confidence ${Math.round(issue.confidence * 100)}%`
+              : ""
+          }${
+            issue.carriedFrom
+              ? `, carried forward from ${issue.carriedFrom.slice(0, 8)}`
+              : ""
+          })\n  ${issue.description}${
+            issue.suggestion ? `\n  **Fix:** ${issue.suggestion}` : ""
+          }`
+      )
+      .join("\n")}\n`;
+  };
+
+  const suggestions =
+    report.suggestions.length > 0
+      ? report.suggestions
+          .map(
+            (suggestion) =>
+              `- [${suggestion.impact}] ${suggestion.description}${
+                suggestion.file ? ` (${suggestion.file})` : ""
+              }`
+          )
+          .join("\n")
+      : "None.";
+
+  const suppressed =
+    report.suppressedIssues && report.suppressedIssues.length > 0
+      ? `\n## SUPPRESSED FINDINGS:\n${report.suppressedIssues
+          .map(
+            ({ issue, source }) =>
+              `- ${formatIssueLine(issue)} (${
+                REVIEW_SEVERITY[issue.severity]
+              }, ${source})`
+          )
+          .join("\n")}\n`
+      : "";
+
+  const unusedDirectives =
+    report.unusedDirectives && report.unusedDirectives.length > 0
+      ? `\n## UNUSED SUPPRESSIONS:\n${report.unusedDirectives
+          .map(
+            (directive) =>
+              `- ${directive.file}:${directive.line} - steelheart-ignore-${
+                directive.scope
+              }${
+                directive.targets.length > 0
+                  ? ` ${directive.targets.join(",")}`
+                  : ""
+              }`
+          )
+          .join("\n")}\n`
+      : "";
+
+  const intentCheck = report.intentCheck
+    ? `## COMMIT MESSAGE CHECK: ${
+        report.intentCheck.matches ? "MATCHES" : "MISMATCH"
+      }
+
+> ${report.intentCheck.message.trim().split("\n").join("\n> ")}
+
+${report.intentCheck.explanation}
+
+`
+    : "";
+
+  const votes = report.votes
+    ? `_Decided by ${report.votes.runs} independent reviews, ${
+        report.votes.failVotes
+      } of them FAIL${
+        report.votes.invalidVotes
+          ? ` and ${report.votes.invalidVotes} without a valid result`
+          : ""
+      }. Findings needed ${Math.round(
+        report.votes.threshold * 100
+      )}% agreement; ${report.votes.droppedFindings} below it were dropped._
+
+`
+    : "";
+
+  const incomplete = report.incomplete
+    ? `_Incomplete: ${report.incomplete}. The findings below cover only what was reviewed._
+
+`
+    : "";
+
+  const missingPersonas = report.missingPersonas?.length
+    ? `_Incomplete: no valid result from personas ${report.missingPersonas.join(
+        ", "
+      )}, so their concerns were not assessed._
+
+`
+    : "";
+
+  return `## REVIEW DECISION: ${report.decision}
+
+${report.summary}
+
+${incomplete}${missingPersonas}${votes}${intentCheck}${section(
+    "CRITICAL ISSUES",
+    "critical"
+  )}
+${section("MAJOR ISSUES", "warning")}
+${section("MINOR ISSUES", "info")}
+## DETAILED ANALYSIS:
+
+${report.overallAssessment}
+
+## SUGGESTIONS:
+${suggestions}
+${suppressed}${unusedDirectives}`;
+};
@@ -0,0 +1,100 @@
+import { Issue, ReviewReport } from "../../types";
+import {
+  applySuppressionDirectives,
+  parseSuppressionDirectives,
+} from "./suppressions";
+
+const issue = (line: number, overrides: Partial<Issue> = {}): Issue => ({
+  file: "src/app.ts",
+  line,
+  severity: "warning",
+  category: "security",
+  description: "Unsafe call",
+  ...overrides,
+});
+
+const report = (issues: Issue[]): ReviewReport =>
+  ({
+    decision: "FAIL",
+    issues,
+    criticalIssues: 0,
+    warningIssues: issues.length,
+    infoIssues: 0,
+  } as ReviewReport);
+
+describe("parseSuppressionDirectives", () => {
+  it("reads next-line and file directives with targets and a reason", () => {
+    const directives = parseSuppressionDirectives(
+      "src/app.ts",
+      [
+        "// steelheart-ignore-file style",
+        "run();",
+        "  // steelheart-ignore-next-line security, eval -- sandboxed input",
+        "eval(code);",
+      ].join("\n")
+    );
+
+    expect(directives).toEqual([
+      { file: "src/app.ts", line: 1, scope: "file", targets: ["style"] },
+      {
+        file: "src/app.ts",
+        line: 3,
+        scope: "next-line",
+        targets: ["security", "eval"],
+      },
+    ]);
+  });
+
+  it("uses the file's own comment syntax", () => {
+    expect(
+      parseSuppressionDirectives("app.py", "# steelheart-ignore-next-line")
+    ).toHaveLength(1);
+    expect(
+      parseSuppressionDirectives("app.py", "// steelheart-ignore-next-line")
+    ).toEqual([]);
+  });
+});
+
+describe("applySuppressionDirectives", () => {
+  const reviewed = [
+    "init();",
+    "// steelheart-ignore-next-line security",
+    "eval(code);",
+    "// steelheart-ignore-next-line",
+    "done();",
+  ].join("\n");
+
+  it("reads directives from the reviewed content", () => {
+    const result = report([issue(3), issue(1)]);
+    const read = jest.fn(() => reviewed);
+
+    expect(
+      applySuppressionDirectives("/repo", result, ["src/app.ts"], read)
+    ).toBe(1);
+    expect(read).toHaveBeenCalledWith("src/app.ts");
+    expect(result.issues.map((finding) => finding.line)).toEqual([1]);
+    expect(result.suppressedIssues).toEqual([
+      { issue: issue(3), source: "directive" },
+    ]);
+    expect(result.warningIssues).toBe(1);
+    expect(result.unusedDirectives?.map((directive) => directive.line)).toEqual(
+      [4]
+    );
+  });
+
+  it("keeps findings whose category is not targeted", () => {
+    const result = report([issue(3, { category: "bug" })]);
+
+    expect(
+      applySuppressionDirectives("/repo", result, [], () => reviewed)
+    ).toBe(0);
+    expect(result.issues).toHaveLength(1);
+  });
+
+  it("skips files that are not available", () => {
+    const result = report([issue(3)]);
+
+    expect(applySuppressionDirectives("/repo", result, [], () => null)).toBe(0);
+    expect(result.unusedDirectives).toEqual([]);
+  });
+});
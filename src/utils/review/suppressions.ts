@@ -0,0 +1,139 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Issue, ReviewReport, SuppressionDirective } from "../../types";
+import { CommentSyntax, getCommentSyntax } from "../code-comments";
+import { recountIssues } from "./structured-review";
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const buildDirectivePattern = (syntax: CommentSyntax): RegExp => {
+  const openers = [...syntax.line, ...(syntax.block ? [syntax.block[0]] : [])]
+    .map(escapeRegExp)
+    .join("|");
+  const closer = syntax.block
+    ? `(?:\\s*${escapeRegExp(syntax.block[1])})?`
+    : "";
+
+  // Targets are optional; anything after "--" is a free-form reason
+  return new RegExp(
+    `(?:${openers})\\s*steelheart-ignore-(next-line|file)\\b([^\\n]*?)${closer}\\s*$`
+  );
+};
+
+/**
+ * Finds `steelheart-ignore-next-line [targets]` and
+ * `steelheart-ignore-file [targets]` directives written in the file's own
+ * comment syntax: `//` or `/*` comments for TypeScript, `#` for Python.
+ * Targets are comma- or space-separated categories or rule ids.
+ */
+export const parseSuppressionDirectives = (
+  file: string,
+  content: string
+): SuppressionDirective[] => {
+  const syntax = getCommentSyntax(file);
+  if (!syntax) return [];
+
+  const pattern = buildDirectivePattern(syntax);
+  const directives: SuppressionDirective[] = [];
+
+  content.split("\n").forEach((text, index) => {
+    const match = text.match(pattern);
+    if (!match) return;
+
+    const targets = match[2]
+      .split("--")[0]
+      .split(/[\s,]+/)
+      .map((target) => target.trim().toLowerCase())
+      .filter(Boolean);
+
+    directives.push({
+      file,
+      line: index + 1,
+      scope: match[1] as SuppressionDirective["scope"],
+      targets,
+    });
+  });
+
+  return directives;
+};
+
+const directiveMatches = (
+  directive: SuppressionDirective,
+  issue: Issue
+): boolean => {
+  if (directive.scope === "next-line" && issue.line !== directive.line + 1) {
+    return false;
+  }
+  return (
+    directive.targets.length === 0 ||
+    directive.targets.includes(issue.category) ||
+    (!!issue.rule && directive.targets.includes(issue.rule.toLowerCase()))
+  );
+};
+
+/**
+ * Moves findings covered by an inline directive to `suppressedIssues` and
+ * records directives that matched nothing as `unusedDirectives`. Directives
+ * are read from `files` (the reviewed files) plus every file with a
+ * finding; `readContent` supplies their contents when they do not come
+ * from the working tree. Returns the number of suppressed findings.
+ */
+export const applySuppressionDirectives = (
+  repoPath: string,
+  report: ReviewReport,
+  files: string[],
+  readContent: (file: string) => string | null = (file) =>
+    readFileSync(join(repoPath, file), "utf-8")
+): number => {
+  const paths = new Set(
+    [...files, ...report.issues.map((issue) => issue.file)].map((file) =>
+      file.replace(/^\.?\//, "")
+    )
+  );
+
+  const directives: SuppressionDirective[] = [];
+  paths.forEach((file) => {
+    try {
+      const content = readContent(file);
+      if (content === null) return;
+      directives.push(...parseSuppressionDirectives(file, content));
+    } catch {
+      // Deleted or binary files carry no directives
+    }
+  });
+
+  const used = new Set<SuppressionDirective>();
+  const kept: Issue[] = [];
+  const suppressed: Issue[] = [];
+
+  for (const issue of report.issues) {
+    const file = issue.file.replace(/^\.?\//, "");
+    const directive = directives.find(
+      (candidate) =>
+        candidate.file === file && directiveMatches(candidate, issue)
+    );
+
+    if (directive) {
+      used.add(directive);
+      suppressed.push(issue);
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  report.issues = kept;
+  report.unusedDirectives = directives.filter(
+    (directive) => !used.has(directive)
+  );
+
+  if (suppressed.length > 0) {
+    report.suppressedIssues = [
+      ...(report.suppressedIssues || []),
+      ...suppressed.map((issue) => ({ issue, source: "directive" as const })),
+    ];
+    recountIssues(report);
+  }
+
+  return suppressed.length;
+};
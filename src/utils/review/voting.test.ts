@@ -0,0 +1,204 @@
+import { StructuredReview, StructuredReviewIssue } from "./structured-review";
+import {
+  DEFAULT_AGREEMENT,
+  minimumValidVotes,
+  parseAgreement,
+  voteOnReviews,
+} from "./voting";
+
+const issue = (
+  overrides: Partial<StructuredReviewIssue> = {}
+): StructuredReviewIssue => ({
+  file: "src/app.ts",
+  line: 3,
+  severity: "major",
+  category: "bug",
+  title: "Unchecked result",
+  description: "The result is used without a null check.",
+  ...overrides,
+});
+
+const review = (
+  overrides: Partial<StructuredReview> = {}
+): StructuredReview => ({
+  decision: "PASS",
+  summary: "Looks fine.",
+  overallAssessment: "No blocking problems.",
+  issues: [],
+  suggestions: [],
+  ...overrides,
+});
+
+const other = issue({
+  file: "src/db.ts",
+  line: 40,
+  category: "performance",
+  title: "Query in a loop",
+});
+
+describe("voteOnReviews", () => {
+  it("keeps findings enough votes agree on and drops outliers", () => {
+    const { review: voted, votes } = voteOnReviews(
+      [
+        review({ issues: [issue()] }),
+        review({ issues: [issue({ line: 4 }), other] }),
+        review({ issues: [issue()] }),
+      ],
+      DEFAULT_AGREEMENT
+    );
+
+    expect(voted.issues).toEqual([{ ...issue(), confidence: 1 }]);
+    expect(votes).toEqual({
+      runs: 3,
+      invalidVotes: 0,
+      threshold: 0.5,
+      failVotes: 0,
+      droppedFindings: 1,
+    });
+  });
+
+  it("counts a vote once per finding even when it reports it twice", () => {
+    const { review: voted, votes } = voteOnReviews(
+      [review({ issues: [issue(), issue({ line: 5 })] }), review(), review()],
+      0.5
+    );
+
+    expect(voted.issues).toEqual([]);
+    expect(votes.droppedFindings).toBe(2);
+  });
+
+  it("takes the severity most votes gave, ties going to the stricter one", () => {
+    const majority = voteOnReviews(
+      [
+        review({ issues: [issue({ severity: "minor" })] }),
+        review({ issues: [issue({ severity: "minor" })] }),
+        review({ issues: [issue({ severity: "critical" })] }),
+      ],
+      0.5
+    );
+    const tie = voteOnReviews(
+      [
+        review({ issues: [issue({ severity: "minor" })] }),
+        review({ issues: [issue({ severity: "major" })] }),
+      ],
+      0.5
+    );
+
+    expect(majority.review.issues[0].severity).toBe("minor");
+    expect(majority.review.decision).toBe("PASS");
+    expect(tie.review.issues[0].severity).toBe("major");
+  });
+
+  it("fails only when FAIL votes reach the threshold or a kept finding is critical", () => {
+    const oneFail = [review({ decision: "FAIL" }), review(), review()];
+    const twoFail = [...oneFail, review({ decision: "FAIL" })];
+
+    expect(voteOnReviews(oneFail, 0.5).review.decision).toBe("PASS");
+    expect(voteOnReviews(twoFail, 0.5).votes.failVotes).toBe(2);
+    expect(voteOnReviews(twoFail, 0.5).review.decision).toBe("FAIL");
+    expect(
+      voteOnReviews(
+        [
+          review({ issues: [issue({ severity: "critical" })] }),
+          review({ issues: [issue({ severity: "critical" })] }),
+        ],
+        0.5
+      ).review.decision
+    ).toBe("FAIL");
+  });
+
+  it("takes shares of the runs requested so invalid votes support nothing", () => {
+    const { review: voted, votes } = voteOnReviews(
+      [review({ decision: "FAIL", issues: [issue()] }), review()],
+      0.5,
+      3
+    );
+
+    expect(voted.issues).toEqual([]);
+    expect(voted.decision).toBe("PASS");
+    expect(votes.invalidVotes).toBe(1);
+    expect(votes.droppedFindings).toBe(1);
+  });
+
+  it("records the persona of every vote and rounds the confidence", () => {
+    const { review: voted } = voteOnReviews(
+      [
+        review({ issues: [issue({ personas: ["security"] })] }),
+        review({ issues: [issue({ personas: ["performance"] })] }),
+        review(),
+      ],
+      0.6
+    );
+
+    expect(voted.issues[0]).toMatchObject({
+      personas: ["security", "performance"],
+      confidence: 0.67,
+    });
+  });
+
+  it("takes the prose of the vote sharing the most kept findings", () => {
+    const { review: voted } = voteOnReviews(
+      [
+        review({ summary: "Nothing found." }),
+        review({ summary: "Two problems.", issues: [issue(), other] }),
+        review({ summary: "One problem.", issues: [issue(), other] }),
+      ],
+      0.5
+    );
+
+    expect(voted.summary).toBe("Two problems.");
+    expect(voted.issues).toHaveLength(2);
+  });
+
+  it("reports an intent mismatch only when enough votes see one", () => {
+    const matches = { matches: true, explanation: "Adds caching." };
+    const mismatch = { matches: false, explanation: "Also renames the API." };
+
+    expect(
+      voteOnReviews(
+        [
+          review({ intentCheck: mismatch }),
+          review({ intentCheck: matches }),
+          review({ intentCheck: matches }),
+        ],
+        0.5
+      ).review.intentCheck
+    ).toEqual(matches);
+    expect(
+      voteOnReviews(
+        [
+          review({ intentCheck: mismatch }),
+          review({ intentCheck: matches }),
+          review(),
+        ],
+        0.5
+      ).review.intentCheck
+    ).toEqual(mismatch);
+    expect(voteOnReviews([review()], 0.5).review.intentCheck).toBeUndefined();
+  });
+});
+
+describe("minimumValidVotes", () => {
+  it.each([
+    [3, 0.5, 2],
+    [3, 2 / 3, 2],
+    [5, 0.6, 3],
+    [4, 1, 4],
+  ])(
+    "counts %i runs at %d agreement as needing %i valid votes",
+    (runs, threshold, minimum) => {
+      expect(minimumValidVotes(runs, threshold)).toBe(minimum);
+    }
+  );
+});
+
+describe("parseAgreement", () => {
+  it("accepts fractions above 0 up to 1", () => {
+    expect(parseAgreement("0.6")).toBe(0.6);
+    expect(parseAgreement("1")).toBe(1);
+  });
+
+  it.each(["0", "1.5", "-0.2", "most"])("rejects %s", (value) => {
+    expect(() => parseAgreement(value)).toThrow("Invalid agreement threshold");
+  });
+});
@@ -0,0 +1,144 @@
+import { InvalidArgumentError } from "commander";
+import { ReviewVotes } from "../../types";
+import { findingsOverlap } from "./personas";
+import {
+  SEVERITY_RANK,
+  StructuredReview,
+  StructuredReviewIssue,
+} from "./structured-review";
+
+// Share of votes a finding needs when review.agreement is not configured
+export const DEFAULT_AGREEMENT = 0.5;
+
+export const parseAgreement = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 1) {
+    throw new InvalidArgumentError(
+      `Invalid agreement threshold: ${value} (use a fraction between 0 and 1, e.g. 0.6)`
+    );
+  }
+  return parsed;
+};
+
+// Fewer valid votes than this can neither keep a finding nor fail the review
+export const minimumValidVotes = (runs: number, threshold: number): number =>
+  Math.ceil(runs * threshold - 1e-9);
+
+interface FindingCluster {
+  issues: StructuredReviewIssue[];
+  votes: Set<number>;
+}
+
+// The severity most votes gave the finding; ties go to the stricter one
+const representative = (cluster: FindingCluster): StructuredReviewIssue => {
+  const counts = new Map<StructuredReviewIssue["severity"], number>();
+  cluster.issues.forEach((issue) =>
+    counts.set(issue.severity, (counts.get(issue.severity) || 0) + 1)
+  );
+  const [severity] = Array.from(counts.entries()).sort(
+    ([a, countA], [b, countB]) =>
+      countB - countA || SEVERITY_RANK[a] - SEVERITY_RANK[b]
+  )[0];
+  return cluster.issues.find((issue) => issue.severity === severity)!;
+};
+
+/**
+ * Combines independent reviews of the same change by agreement. Findings
+ * are clustered across votes (see findingsOverlap) and a cluster is kept
+ * only when at least `threshold` of the votes reported it; its confidence
+ * is that share. The review fails when the FAIL votes reach the threshold
+ * or a kept finding is critical, so a single outlier cannot flip the
+ * decision either way. Shares are taken of the `runs` requested, so votes
+ * that returned no valid review support nothing rather than vanishing.
+ */
+export const voteOnReviews = (
+  reviews: StructuredReview[],
+  threshold: number,
+  runs: number = reviews.length
+): { review: StructuredReview; votes: ReviewVotes } => {
+  const clusters: FindingCluster[] = [];
+  reviews.forEach((review, vote) => {
+    review.issues.forEach((issue) => {
+      // One vote can only support a cluster once
+      const cluster = clusters.find(
+        (candidate) =>
+          !candidate.votes.has(vote) &&
+          candidate.issues.some((kept) => findingsOverlap(kept, issue))
+      );
+      if (cluster) {
+        cluster.issues.push(issue);
+        cluster.votes.add(vote);
+      } else {
+        clusters.push({ issues: [issue], votes: new Set([vote]) });
+      }
+    });
+  });
+
+  const share = (count: number) => count / runs;
+  const kept = clusters.filter(
+    (cluster) => share(cluster.votes.size) >= threshold
+  );
+  const issues = kept.map((cluster) => {
+    const personas = [
+      ...new Set(cluster.issues.flatMap((issue) => issue.personas || [])),
+    ];
+    return {
+      ...representative(cluster),
+      ...(personas.length > 0 ? { personas } : {}),
+      confidence: Math.round(share(cluster.votes.size) * 100) / 100,
+    };
+  });
+
+  const failVotes = reviews.filter(
+    (review) => review.decision === "FAIL"
+  ).length;
+  const decision =
+    share(failVotes) >= threshold ||
+    issues.some((issue) => issue.severity === "critical")
+      ? "FAIL"
+      : "PASS";
+
+  // Prose and suggestions come from the vote that shares the most kept
+  // findings, preferring one with the same decision, rather than repeating
+  // every vote's
+  const score = (vote: number) =>
+    kept.filter((cluster) => cluster.votes.has(vote)).length * 2 +
+    (reviews[vote].decision === decision ? 1 : 0);
+  const voice =
+    reviews[
+      reviews
+        .map((_, vote) => vote)
+        .reduce((best, vote) => (score(vote) > score(best) ? vote : best), 0)
+    ];
+
+  const intentChecks = reviews.flatMap((review) =>
+    review.intentCheck ? [review.intentCheck] : []
+  );
+  const mismatches = intentChecks.filter((check) => !check.matches);
+  const intentMatches =
+    intentChecks.length === 0 ||
+    mismatches.length / intentChecks.length < threshold;
+
+  return {
+    review: {
+      decision,
+      summary: voice.summary,
+      overallAssessment: voice.overallAssessment,
+      issues,
+      suggestions: voice.suggestions,
+      intentCheck:
+        intentChecks.length > 0
+          ? (intentMatches
+              ? intentChecks.find((check) => check.matches)
+              : mismatches[0]) || intentChecks[0]
+          : undefined,
+    },
+    votes: {
+      runs,
+      invalidVotes: runs - reviews.length,
+      threshold,
+      failVotes,
+      droppedFindings: clusters.length - kept.length,
+    },
+  };
+};
@@ -28,3 +28,22 @@ export const logError = (message: string): void => {
 export const logGray = (message: string): void => {
   console.log(chalk.gray(message));
 };
+
+export const logDiff = (diff: string): void => {
+  diff
+    .trimEnd()
+    .split("\n")
+    .forEach((line) => {
+      if (/^(?:\+\+\+|---) /.test(line)) {
+        console.log(chalk.bold(line));
+      } else if (line.startsWith("+")) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith("-")) {
+        console.log(chalk.red(line));
+      } else if (line.startsWith("@@")) {
+        console.log(chalk.cyan(line));
+      } else {
+        console.log(chalk.gray(line));
+      }
+    });
+};
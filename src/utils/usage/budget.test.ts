@@ -0,0 +1,91 @@
+import { mapWithConcurrency } from "../concurrency";
+import {
+  BudgetExceededError,
+  configureRunBudget,
+  isBudgetExceeded,
+  reserveBudget,
+} from "./budget";
+import { recordUsage, startCostLedger } from "./cost-ledger";
+
+const MODEL = "test-model";
+
+// Stands in for a completion: reserve, wait for the reply, record, settle
+const request = async (promptTokens: number, usedTokens: number) => {
+  const settle = reserveBudget(MODEL, promptTokens, 400);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  recordUsage({ model: MODEL, promptTokens: usedTokens, completionTokens: 0 });
+  settle();
+};
+
+describe("reserveBudget", () => {
+  beforeEach(() => {
+    startCostLedger("test");
+  });
+
+  afterEach(() => {
+    configureRunBudget({});
+  });
+
+  it("does nothing without a budget", () => {
+    configureRunBudget({});
+
+    expect(() => reserveBudget(MODEL, 1_000_000, 4000)).not.toThrow();
+  });
+
+  it("counts spent tokens against the budget", () => {
+    configureRunBudget({ maxTokens: 1000 });
+    recordUsage({ model: MODEL, promptTokens: 700, completionTokens: 0 });
+
+    expect(() => reserveBudget(MODEL, 100, 400)).toThrow(BudgetExceededError);
+    expect(isBudgetExceeded()).toBe(true);
+  });
+
+  it("ignores cache hits", () => {
+    configureRunBudget({ maxTokens: 1000 });
+    recordUsage({
+      model: MODEL,
+      promptTokens: 5000,
+      completionTokens: 0,
+      cached: true,
+    });
+
+    expect(() => reserveBudget(MODEL, 100, 400)).not.toThrow();
+  });
+
+  it("counts requests still in flight", () => {
+    configureRunBudget({ maxTokens: 1000 });
+    const settle = reserveBudget(MODEL, 200, 400);
+
+    expect(() => reserveBudget(MODEL, 200, 400)).toThrow(
+      "Token budget exceeded: 0 used + 600 in flight + ~600 for next request > 1000"
+    );
+    settle();
+  });
+
+  it("frees the reservation once the request is settled", () => {
+    configureRunBudget({ maxTokens: 1000 });
+    const settle = reserveBudget(MODEL, 200, 400);
+    recordUsage({ model: MODEL, promptTokens: 250, completionTokens: 50 });
+    settle();
+    settle();
+
+    expect(() => reserveBudget(MODEL, 200, 400)).not.toThrow();
+  });
+
+  it("stops concurrent requests that together exceed the budget", async () => {
+    configureRunBudget({ maxTokens: 1500 });
+
+    await expect(
+      mapWithConcurrency([1, 2, 3], 3, () => request(200, 300))
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(isBudgetExceeded()).toBe(true);
+  });
+
+  it("lets concurrent requests through when the budget allows them", async () => {
+    configureRunBudget({ maxTokens: 1800 });
+
+    await expect(
+      mapWithConcurrency([1, 2, 3], 3, () => request(200, 300))
+    ).resolves.toHaveLength(3);
+  });
+});
@@ -0,0 +1,132 @@
+import { InvalidArgumentError } from "commander";
+import { getConfig } from "../config/config-manager";
+import { formatUSD, getCostLedger } from "./cost-ledger";
+import { calculateCost } from "./pricing";
+
+export interface RunBudget {
+  maxCostUSD?: number;
+  maxTokens?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+let runBudget: RunBudget = {};
+let exceeded = false;
+// Worst-case usage of requests that have been sent but not yet recorded
+let reserved = { costUSD: 0, tokens: 0 };
+
+/**
+ * Sets the limits for this run. CLI overrides win over `maxCostPerRun` and
+ * `maxTokensPerRun` from .steelheart.json; unset limits are not enforced.
+ */
+export const configureRunBudget = (overrides: RunBudget = {}): RunBudget => {
+  const config = getConfig();
+  runBudget = {
+    maxCostUSD: overrides.maxCostUSD ?? config.maxCostPerRun,
+    maxTokens: overrides.maxTokens ?? config.maxTokensPerRun,
+  };
+  exceeded = false;
+  reserved = { costUSD: 0, tokens: 0 };
+  return runBudget;
+};
+
+export const getRunBudget = (): RunBudget => runBudget;
+
+export const isBudgetExceeded = (): boolean => exceeded;
+
+// Cache hits were paid for by an earlier run, so only live calls count
+const getSpent = (): { costUSD: number; tokens: number } => {
+  return getCostLedger()
+    .entries.filter((entry) => !entry.cached)
+    .reduce(
+      (spent, entry) => ({
+        costUSD: spent.costUSD + entry.costUSD,
+        tokens: spent.tokens + entry.promptTokens + entry.completionTokens,
+      }),
+      { costUSD: 0, tokens: 0 }
+    );
+};
+
+/**
+ * Reserves the worst case of a request (full prompt plus the maximum
+ * completion) and throws if that, on top of what was spent and what
+ * requests still in flight have reserved, would push the run over budget.
+ * Call the returned function once the request's usage is recorded or it
+ * failed. Once tripped, every later request is refused so the run winds
+ * down with what it already has.
+ */
+export const reserveBudget = (
+  model: string,
+  promptTokens: number,
+  maxCompletionTokens: number
+): (() => void) => {
+  const { maxCostUSD, maxTokens } = runBudget;
+  if (maxCostUSD === undefined && maxTokens === undefined) return () => {};
+
+  if (exceeded) {
+    throw new BudgetExceededError("Run budget already exhausted");
+  }
+
+  const spent = getSpent();
+  const inFlight = (
+    amount: number,
+    format: (value: number) => string = String
+  ) => (amount > 0 ? ` + ${format(amount)} in flight` : "");
+  const estimatedTokens = promptTokens + maxCompletionTokens;
+
+  if (
+    maxTokens !== undefined &&
+    spent.tokens + reserved.tokens + estimatedTokens > maxTokens
+  ) {
+    exceeded = true;
+    throw new BudgetExceededError(
+      `Token budget exceeded: ${spent.tokens} used${inFlight(
+        reserved.tokens
+      )} + ~${estimatedTokens} for next request > ${maxTokens}`
+    );
+  }
+
+  const estimatedCost =
+    calculateCost(model, promptTokens, maxCompletionTokens) || 0;
+  if (
+    maxCostUSD !== undefined &&
+    spent.costUSD + reserved.costUSD + estimatedCost > maxCostUSD
+  ) {
+    exceeded = true;
+    throw new BudgetExceededError(
+      `Cost budget exceeded: ${formatUSD(spent.costUSD)} spent${inFlight(
+        reserved.costUSD,
+        formatUSD
+      )} + ~${formatUSD(estimatedCost)} for next request > ${formatUSD(
+        maxCostUSD
+      )}`
+    );
+  }
+
+  const reservation = reserved;
+  reservation.tokens += estimatedTokens;
+  reservation.costUSD += estimatedCost;
+
+  let settled = false;
+  return () => {
+    // A reset by configureRunBudget already dropped this reservation
+    if (settled || reservation !== reserved) return;
+    settled = true;
+    reservation.tokens -= estimatedTokens;
+    reservation.costUSD -= estimatedCost;
+  };
+};
+
+// Commander option parser for --budget / --budget-tokens
+export const parseBudgetValue = (value: string): number => {
+  const parsed = parseFloat(value.replace(/^\$/, ""));
+  if (isNaN(parsed) || parsed < 0) {
+    throw new InvalidArgumentError(`Invalid budget value: ${value}`);
+  }
+  return parsed;
+};
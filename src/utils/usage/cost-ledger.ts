@@ -0,0 +1,200 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { logInfo, logGray, logWarning } from "../ui/console";
+import { calculateCost } from "./pricing";
+
+export interface UsageEntry {
+  timestamp: string;
+  model: string;
+  file?: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+  cached: boolean;
+  estimated: boolean;
+}
+
+export interface LedgerTotals {
+  requests: number;
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+}
+
+export interface CostLedger {
+  command: string;
+  startedAt: string;
+  finishedAt?: string;
+  totals: LedgerTotals;
+  byModel: Record<string, LedgerTotals>;
+  byFile: Record<string, LedgerTotals>;
+  unpricedModels: string[];
+  budgetExceeded?: string;
+  entries: UsageEntry[];
+}
+
+const UNATTRIBUTED = "(unattributed)";
+
+const emptyTotals = (): LedgerTotals => ({
+  requests: 0,
+  cachedRequests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUSD: 0,
+});
+
+const createLedger = (command: string): CostLedger => ({
+  command,
+  startedAt: new Date().toISOString(),
+  totals: emptyTotals(),
+  byModel: {},
+  byFile: {},
+  unpricedModels: [],
+  entries: [],
+});
+
+// One ledger per CLI run; library callers get a ledger on first use
+let currentLedger: CostLedger | null = null;
+const fileScope = new AsyncLocalStorage<string>();
+
+export const startCostLedger = (command: string): CostLedger => {
+  currentLedger = createLedger(command);
+  return currentLedger;
+};
+
+export const getCostLedger = (): CostLedger => {
+  if (!currentLedger) {
+    currentLedger = createLedger("library");
+  }
+  return currentLedger;
+};
+
+/**
+ * Attributes every completion made inside `fn` (including awaited calls) to
+ * `file` in the ledger's per-file breakdown.
+ */
+export const runWithLedgerFile = <T>(file: string, fn: () => T): T => {
+  return fileScope.run(file, fn);
+};
+
+const addToTotals = (totals: LedgerTotals, entry: UsageEntry): void => {
+  totals.requests++;
+  if (entry.cached) totals.cachedRequests++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.costUSD += entry.costUSD;
+};
+
+export const recordUsage = (usage: {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cached?: boolean;
+  estimated?: boolean;
+}): UsageEntry => {
+  const ledger = getCostLedger();
+  const cost = calculateCost(
+    usage.model,
+    usage.promptTokens,
+    usage.completionTokens
+  );
+
+  if (cost === undefined && !ledger.unpricedModels.includes(usage.model)) {
+    ledger.unpricedModels.push(usage.model);
+  }
+
+  const entry: UsageEntry = {
+    timestamp: new Date().toISOString(),
+    model: usage.model,
+    file: fileScope.getStore(),
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    // Cache hits were paid for by an earlier run
+    costUSD: usage.cached ? 0 : cost || 0,
+    cached: !!usage.cached,
+    estimated: !!usage.estimated,
+  };
+
+  ledger.entries.push(entry);
+  addToTotals(ledger.totals, entry);
+  addToTotals(
+    (ledger.byModel[entry.model] =
+      ledger.byModel[entry.model] || emptyTotals()),
+    entry
+  );
+  const fileKey = entry.file || UNATTRIBUTED;
+  addToTotals(
+    (ledger.byFile[fileKey] = ledger.byFile[fileKey] || emptyTotals()),
+    entry
+  );
+
+  return entry;
+};
+
+export const markBudgetExceeded = (reason: string): void => {
+  getCostLedger().budgetExceeded = reason;
+};
+
+export const writeCostLedger = (outputDir: string): string | null => {
+  const ledger = getCostLedger();
+  ledger.finishedAt = new Date().toISOString();
+
+  try {
+    const stamp = ledger.startedAt.replace(/[:.]/g, "-");
+    const filePath = join(
+      outputDir,
+      `cost-ledger-${ledger.command}-${stamp}.json`
+    );
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(filePath, JSON.stringify(ledger, null, 2));
+    return filePath;
+  } catch (error) {
+    console.error("Error saving cost ledger:", error);
+    return null;
+  }
+};
+
+export const formatUSD = (amount: number): string =>
+  `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+
+export const logCostSummary = (ledgerPath?: string | null): void => {
+  const ledger = getCostLedger();
+  const { totals } = ledger;
+
+  logInfo("\n💰 Cost Summary:");
+  logGray(
+    `Requests: ${totals.requests} (${totals.cachedRequests} served from cache)`
+  );
+  logGray(
+    `Tokens: ${totals.promptTokens} prompt + ${totals.completionTokens} completion`
+  );
+  logGray(`Estimated cost: ${formatUSD(totals.costUSD)}`);
+
+  Object.entries(ledger.byModel).forEach(([model, modelTotals]) => {
+    logGray(
+      `   • ${model}: ${modelTotals.requests} requests, ${formatUSD(
+        modelTotals.costUSD
+      )}`
+    );
+  });
+
+  if (ledger.unpricedModels.length > 0) {
+    logWarning(
+      `No price configured for: ${ledger.unpricedModels.join(
+        ", "
+      )} (add them under "pricing" in .steelheart.json)`
+    );
+  }
+  if (ledger.budgetExceeded) {
+    logWarning(`Stopped early: ${ledger.budgetExceeded}`);
+  }
+  if (ledgerPath) {
+    logGray(`Cost ledger: ${ledgerPath}`);
+  }
+};
+
+export const finishCostLedger = (outputDir: string): void => {
+  logCostSummary(writeCostLedger(outputDir));
+};
@@ -0,0 +1,61 @@
+import { getConfig } from "../config/config-manager";
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices; override or extend with "pricing" in .steelheart.json
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o1-mini": { input: 1.1, output: 4.4 },
+  o1: { input: 15, output: 60 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-opus-4": { input: 15, output: 75 },
+};
+
+/**
+ * Resolves the price for a model. Dated snapshots such as
+ * "gpt-4o-mini-2024-07-18" match their family by longest prefix.
+ */
+export const getModelPrice = (model: string): ModelPrice | undefined => {
+  const prices: Record<string, ModelPrice> = {
+    ...MODEL_PRICES,
+    ...(getConfig().pricing || {}),
+  };
+
+  if (prices[model]) return prices[model];
+
+  const family = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return family ? prices[family] : undefined;
+};
+
+export const calculateCost = (
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined => {
+  const price = getModelPrice(model);
+  if (!price) return undefined;
+
+  return (
+    (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  );
+};
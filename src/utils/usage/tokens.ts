@@ -0,0 +1,26 @@
+import { encode } from "gpt-tokenizer";
+
+/**
+ * Counts tokens with OpenAI's BPE encoding. Other vendors tokenize slightly
+ * differently, but this stays far closer than a characters-per-token ratio.
+ */
+export const countTokens = (text: string): number => {
+  if (!text) return 0;
+
+  try {
+    return encode(text).length;
+  } catch {
+    // Rough estimation: 1 token ≈ 4 characters for English text
+    return Math.ceil(text.length / 4);
+  }
+};
+
+// Chat formats add a few framing tokens per message on top of the content
+export const countMessageTokens = (
+  messages: Array<{ role: string; content: string }>
+): number => {
+  return messages.reduce(
+    (sum, message) => sum + countTokens(message.content) + 4,
+    3
+  );
+};